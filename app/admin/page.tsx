@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 
 interface CrawlSession {
   id: number
@@ -8,8 +8,16 @@ interface CrawlSession {
   completedAt: string | null
   status: string
   pagesScraped: number
+  pagesNew: number
+  pagesChanged: number
+  pagesUnchanged: number
+  pagesRemoved: number
   navigationStepsCount: number
   duration: number | null
+  configName: string | null
+  checkpointAt: string | null
+  resumable: boolean
+  archivedPages: number
 }
 
 interface NavigationStep {
@@ -20,71 +28,930 @@ interface NavigationStep {
   linkText: string | null
   visitedAt: string
   scraped: boolean
+  skipReason: string | null
+  sitemapLastmod: string | null
+  extractor: string | null
+  extractionComparison: {
+    llmChars: number
+    domChars: number
+    overlap: number
+    llmCoverage: number
+  } | null
+  httpStatus: number | null
+  retryCount: number
+  failureReason: string | null
+  failureMessage: string | null
+  interactionCount: number | null
+  canonicalUrl: string | null
+  artifacts: {
+    screenshot: string | null
+    html: string | null
+  }
+}
+
+interface CrawlGraphNode {
+  id: string // URL
+  stepId: number
+  depth: number
+  status: 'scraped' | 'failed' | 'skipped'
+  reason: string | null
+  linkText: string | null
+  parentId: string | null
+  childCount: number
+  scrapedDescendants: number
+}
+
+interface CrawlGraph {
+  nodes: CrawlGraphNode[]
+  edges: Array<{ source: string; target: string; linkText: string | null }>
+  maxDepth: number // Deepest node in the session, before the depth filter
+}
+
+const GRAPH_NODE_STYLES: Record<CrawlGraphNode['status'], string> = {
+  scraped: 'border-green-300 bg-green-50',
+  failed: 'border-red-300 bg-red-50',
+  skipped: 'border-yellow-300 bg-yellow-50',
+}
+
+// One page of the crawl tree with the links followed from it, collapsible
+function CrawlTreeNode({ node, childrenOf }: { node: CrawlGraphNode; childrenOf: Map<string, CrawlGraphNode[]> }) {
+  const [expanded, setExpanded] = useState(node.depth < 2)
+  const children = childrenOf.get(node.id) ?? []
+
+  return (
+    <li>
+      <div className={`border rounded px-2 py-1 mb-1 text-sm flex items-center gap-2 ${GRAPH_NODE_STYLES[node.status]}`}>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          disabled={children.length === 0}
+          className="w-4 text-gray-500 disabled:invisible"
+        >
+          {expanded ? '▾' : '▸'}
+        </button>
+        <a
+          href={node.id}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 hover:underline break-all"
+        >
+          {node.id}
+        </a>
+        {node.linkText && <span className="text-xs text-gray-600">&ldquo;{node.linkText}&rdquo;</span>}
+        {node.reason && (
+          <span className="text-xs text-gray-700">
+            {node.status === 'failed' ? 'Failed' : 'Skipped'}: {node.reason.replace(/_/g, ' ')}
+          </span>
+        )}
+        {node.scrapedDescendants > 0 && (
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            led to {node.scrapedDescendants} {node.scrapedDescendants === 1 ? 'page' : 'pages'}
+          </span>
+        )}
+        {children.length < node.childCount && (
+          <span className="text-xs text-gray-400 whitespace-nowrap">
+            +{node.childCount - children.length} deeper
+          </span>
+        )}
+      </div>
+      {expanded && children.length > 0 && (
+        <ul className="ml-6">
+          {children.map(child => (
+            <CrawlTreeNode key={child.id} node={child} childrenOf={childrenOf} />
+          ))}
+        </ul>
+      )}
+    </li>
+  )
+}
+
+interface InteractionRule {
+  urlPattern: string
+  action: 'click' | 'click_first' | 'reveal'
+  selector: string
+}
+
+interface CrawlConfig {
+  id: number
+  name: string
+  seedUrls: string[]
+  allowedHosts: string[]
+  includePatterns: string[]
+  excludePatterns: string[]
+  queryAllowlist: string[]
+  maxDepth: number | null
+  maxPages: number
+  interactionRules: InteractionRule[] | null // null uses the built-in defaults
+  isActive: boolean
+  updatedAt: string
+}
+
+// Crawl settings without the stored-config fields (environment defaults have these only)
+type CrawlConfigFields = Omit<CrawlConfig, 'id' | 'isActive' | 'updatedAt'>
+
+// Editable form state; list fields are edited one entry per line
+interface CrawlConfigForm {
+  id: number | null
+  name: string
+  seedUrls: string
+  allowedHosts: string
+  includePatterns: string
+  excludePatterns: string
+  queryAllowlist: string
+  maxDepth: string
+  maxPages: string
+  interactionRules: string // JSON; empty uses the built-in defaults
+  isActive: boolean
+}
+
+const toConfigForm = (config: CrawlConfigFields & Partial<CrawlConfig>): CrawlConfigForm => ({
+  id: config.id ?? null,
+  name: config.name,
+  seedUrls: config.seedUrls.join('\n'),
+  allowedHosts: config.allowedHosts.join('\n'),
+  includePatterns: config.includePatterns.join('\n'),
+  excludePatterns: config.excludePatterns.join('\n'),
+  queryAllowlist: config.queryAllowlist.join('\n'),
+  maxDepth: config.maxDepth === null ? '' : String(config.maxDepth),
+  maxPages: String(config.maxPages),
+  interactionRules: config.interactionRules ? JSON.stringify(config.interactionRules, null, 2) : '',
+  isActive: config.isActive ?? false,
+})
+
+const splitLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean)
+
+interface ReprocessResult {
+  crawlSessionId: number
+  pagesReprocessed: number
+  pagesMissing: number
+  pagesRemoved: number
+  chunksCreated: number
+  embeddingsGenerated: number
+  duration: number
+  indexVersionId: number
+}
+
+interface DiffLine {
+  type: 'added' | 'removed'
+  text: string
+  highlights: string[] // Dollar amounts and dates not in the other version
+}
+
+interface FactChange {
+  added: string[]
+  removed: string[]
+}
+
+interface SessionDiff {
+  crawlSessionId: number
+  againstSessionId: number
+  added: string[]
+  removed: string[]
+  modified: Array<{
+    url: string
+    title: string
+    lines: DiffLine[] | null // null when a snapshot is missing from the archive
+    truncated: boolean
+    amounts: FactChange
+    dates: FactChange
+  }>
+  unchangedCount: number
+}
+
+// Wrap the changed dollar amounts and dates of a diff line in <mark>
+const renderDiffText = (line: DiffLine) => {
+  if (line.highlights.length === 0) return line.text
+  const pattern = new RegExp(`(${line.highlights.map(fact => fact.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`)
+  return line.text.split(pattern).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className={line.type === 'added' ? 'bg-green-300' : 'bg-red-300'}>
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  )
+}
+
+interface UploadedDocument {
+  id: number
+  url: string
+  title: string
+  fileName: string | null
+  format: string | null
+  uploadedAt: string
+  chunks: number
+}
+
+interface ReindexSchedule {
+  id: number
+  name: string
+  cron: string
+  enabled: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+  lastRunStatus: 'started' | 'skipped' | 'failed' | null
+  lastJobId: number | null
+}
+
+interface ScheduleForm {
+  id: number | null
+  name: string
+  cron: string
+  enabled: boolean
+}
+
+// Common schedules offered in the schedule form (server time)
+const SCHEDULE_PRESETS: Array<{ label: string; cron: string }> = [
+  { label: 'Nightly at 2:00', cron: '0 2 * * *' },
+  { label: 'Hourly', cron: '0 * * * *' },
+  { label: 'Hourly, 8:00-18:00 on weekdays', cron: '0 8-18 * * 1-5' },
+  { label: 'Weekly on Sunday', cron: '0 3 * * 0' },
+]
+
+interface IndexVersion {
+  id: number
+  status: 'building' | 'live' | 'retired'
+  crawlSessionId: number | null
+  chunkSettings: { maxChunkWords: number; chunkOverlapWords: number; maxTableChunkWords: number } | null
+  embeddingModel: string | null
+  embeddingDimensions: number | null
+  createdAt: string
+  activatedAt: string | null
+  pages: number
+  chunks: number
+}
+
+const VERSION_STATUS_STYLES: Record<IndexVersion['status'], string> = {
+  building: 'bg-yellow-100 text-yellow-800',
+  live: 'bg-green-100 text-green-800',
+  retired: 'bg-gray-100 text-gray-700',
+}
+
+interface CrawlAuthStatus {
+  mode: 'none' | 'storage_state' | 'scripted_login'
+  storageStateSavedAt: string | null
+  cookieCount: number
+  loginUrl: string | null
 }
 
 interface ReindexResult {
-  jobId: string
-  startedAt: string
-  pagesDiscovered: number
-  pagesCrawled: number
+  pagesIndexed: number
+  pagesFailed: number
   chunksCreated: number
   embeddingsGenerated: number
+  embeddingCacheHits: number
+  embeddingCacheMisses: number
   duration: number
   crawlSessionId: number
   navigationSteps: number
-  status: string
+  pagesNew: number
+  pagesChanged: number
+  pagesUnchanged: number
+  pagesRemoved: number
+  status: 'completed' | 'failed' | 'paused' | 'cancelled' // Crawl session status
+  indexVersionId: number | null
+}
+
+type ReindexJob = {
+  id: number
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'paused' | 'cancelled'
+  stage: 'crawl' | 'chunk' | 'embed' | 'store' | null
+  percent: number
+  counts: {
+    pagesCrawled: number
+    pagesFailed: number
+    pagesSkipped: number
+    maxPages: number
+    chunksCreated: number
+    embeddingsGenerated: number
+    chunksStored: number
+  } | null
+  crawlSessionId: number | null
+  error: string | null
+} & (
+  | { type: 'reindex' | 'resume'; result: ReindexResult | null }
+  | { type: 'reprocess'; result: ReprocessResult | null }
+)
+
+const JOB_STAGE_LABELS: Record<NonNullable<ReindexJob['stage']>, string> = {
+  crawl: 'Crawling pages',
+  chunk: 'Chunking content',
+  embed: 'Generating embeddings',
+  store: 'Storing pages and chunks',
 }
 
+const JOB_POLL_INTERVAL_MS = 2000
+
+// How often the page looks for a job it did not start (a schedule, another tab)
+const ACTIVE_JOB_CHECK_INTERVAL_MS = 30 * 1000
+
+// Sessions whose reindex is still running in the server
+const RUNNING_SESSION_STATUSES = ['in_progress', 'pausing', 'cancelling']
+
 export default function AdminPage() {
   const [adminToken, setAdminToken] = useState<string>('')
   const [tokenInput, setTokenInput] = useState<string>('')
   const [isLoading, setIsLoading] = useState(false)
+  const [resumingSessionId, setResumingSessionId] = useState<number | null>(null)
+  const [stoppingSessionId, setStoppingSessionId] = useState<number | null>(null)
+  const [reprocessingSessionId, setReprocessingSessionId] = useState<number | null>(null)
+  const [lastReprocessResult, setLastReprocessResult] = useState<ReprocessResult | null>(null)
+  const [diffingSessionId, setDiffingSessionId] = useState<number | null>(null)
+  const [sessionDiff, setSessionDiff] = useState<SessionDiff | null>(null)
   const [error, setError] = useState<string>('')
   const [lastReindexResult, setLastReindexResult] = useState<ReindexResult | null>(null)
+  const [activeJob, setActiveJob] = useState<ReindexJob | null>(null)
+  const watchedJobIdRef = useRef<number | null>(null) // Job being polled, so it is only followed once
   const [crawlSessions, setCrawlSessions] = useState<CrawlSession[]>([])
   const [selectedSessionId, setSelectedSessionId] = useState<number | null>(null)
   const [navigationSteps, setNavigationSteps] = useState<NavigationStep[]>([])
+  const [navigationView, setNavigationView] = useState<'list' | 'tree'>('list')
+  const [crawlGraph, setCrawlGraph] = useState<CrawlGraph | null>(null)
+  const [graphMaxDepth, setGraphMaxDepth] = useState<string>('') // Empty shows every depth
+  const [crawlConfigs, setCrawlConfigs] = useState<CrawlConfig[]>([])
+  const [configDefaults, setConfigDefaults] = useState<CrawlConfigFields | null>(null)
+  const [configForm, setConfigForm] = useState<CrawlConfigForm | null>(null)
+  const [configMessage, setConfigMessage] = useState<string>('')
+  const [authStatus, setAuthStatus] = useState<CrawlAuthStatus | null>(null)
+  const [authMessage, setAuthMessage] = useState<string>('')
+  const [uploads, setUploads] = useState<UploadedDocument[]>([])
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadMessage, setUploadMessage] = useState<string>('')
+  const [indexVersions, setIndexVersions] = useState<IndexVersion[]>([])
+  const [schedules, setSchedules] = useState<ReindexSchedule[]>([])
+  const [scheduleForm, setScheduleForm] = useState<ScheduleForm | null>(null)
+  const [scheduleMessage, setScheduleMessage] = useState<string>('')
+  const [activatingVersionId, setActivatingVersionId] = useState<number | null>(null)
+  const [versionMessage, setVersionMessage] = useState<string>('')
+
+  // Load admin token from localStorage on mount
+  useEffect(() => {
+    const storedToken = localStorage.getItem('adminToken')
+    if (storedToken) {
+      setAdminToken(storedToken)
+    }
+  }, [])
+
+  // Fetch crawl sessions when token is set, and follow jobs started elsewhere (after a reload, by a schedule)
+  useEffect(() => {
+    if (!adminToken) return
+
+    fetchCrawlSessions()
+    fetchCrawlConfigs()
+    fetchAuthStatus()
+    fetchUploads()
+    fetchIndexVersions()
+    fetchSchedules()
+    fetchActiveJob()
+
+    const timer = setInterval(fetchActiveJob, ACTIVE_JOB_CHECK_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [adminToken])
+
+  // Fetch navigation steps (and the crawl graph when the tree view is open) when a session is selected
+  useEffect(() => {
+    if (selectedSessionId && adminToken) {
+      fetchNavigationSteps(selectedSessionId)
+      if (navigationView === 'tree') {
+        fetchCrawlGraph(selectedSessionId, graphMaxDepth)
+      }
+    }
+  }, [selectedSessionId, adminToken])
+
+  const saveToken = () => {
+    if (tokenInput.trim()) {
+      localStorage.setItem('adminToken', tokenInput.trim())
+      setAdminToken(tokenInput.trim())
+      setTokenInput('')
+      setError('')
+    }
+  }
+
+  const clearToken = () => {
+    localStorage.removeItem('adminToken')
+    setAdminToken('')
+    setError('')
+  }
+
+  const fetchCrawlSessions = async () => {
+    try {
+      const response = await fetch('/api/admin/crawl-sessions', {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setCrawlSessions(data.data.sessions)
+        // Auto-select the most recent session
+        if (data.data.sessions.length > 0 && !selectedSessionId) {
+          setSelectedSessionId(data.data.sessions[0].id)
+        }
+      } else {
+        setError(data.message || 'Failed to fetch crawl sessions')
+      }
+    } catch (err) {
+      console.error('Error fetching crawl sessions:', err)
+    }
+  }
+
+  const fetchNavigationSteps = async (sessionId: number) => {
+    try {
+      const response = await fetch(`/api/admin/navigation/${sessionId}`, {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setNavigationSteps(data.data.navigationSteps)
+      } else {
+        setError(data.message || 'Failed to fetch navigation steps')
+      }
+    } catch (err) {
+      console.error('Error fetching navigation steps:', err)
+    }
+  }
+
+  const fetchCrawlGraph = async (sessionId: number, maxDepth: string) => {
+    try {
+      const query = maxDepth ? `?maxDepth=${maxDepth}` : ''
+      const response = await fetch(`/api/admin/navigation/${sessionId}/graph${query}`, {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setCrawlGraph(data.data)
+      } else {
+        setError(data.message || 'Failed to fetch crawl graph')
+      }
+    } catch (err) {
+      console.error('Error fetching crawl graph:', err)
+    }
+  }
+
+  // Nodes grouped under the page that linked to them; pages without a shown parent are roots
+  const graphNodeIds = new Set(crawlGraph?.nodes.map(node => node.id))
+  const graphRoots = crawlGraph?.nodes.filter(node => !node.parentId || !graphNodeIds.has(node.parentId)) ?? []
+  const graphChildren = new Map<string, CrawlGraphNode[]>()
+  for (const node of crawlGraph?.nodes ?? []) {
+    if (node.parentId && graphNodeIds.has(node.parentId)) {
+      graphChildren.set(node.parentId, [...(graphChildren.get(node.parentId) ?? []), node])
+    }
+  }
+
+  // Artifacts need the admin token, so they are fetched and opened as a blob
+  const openArtifact = async (url: string) => {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        setError(data?.message || 'Failed to fetch artifact')
+        return
+      }
+
+      window.open(URL.createObjectURL(await response.blob()), '_blank')
+    } catch (err) {
+      console.error('Error fetching artifact:', err)
+    }
+  }
+
+  const fetchCrawlConfigs = async () => {
+    try {
+      const response = await fetch('/api/admin/crawl-config', {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setCrawlConfigs(data.data.configs)
+        setConfigDefaults(data.data.defaults)
+      } else {
+        setError(data.message || 'Failed to fetch crawl configs')
+      }
+    } catch (err) {
+      console.error('Error fetching crawl configs:', err)
+    }
+  }
+
+  const saveCrawlConfig = async (form: CrawlConfigForm) => {
+    setConfigMessage('')
+
+    let interactionRules: InteractionRule[] | null = null
+    if (form.interactionRules.trim()) {
+      try {
+        interactionRules = JSON.parse(form.interactionRules)
+      } catch {
+        setConfigMessage('Interaction rules must be valid JSON')
+        return
+      }
+    }
+
+    try {
+      const response = await fetch(form.id ? `/api/admin/crawl-config/${form.id}` : '/api/admin/crawl-config', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          seedUrls: splitLines(form.seedUrls),
+          allowedHosts: splitLines(form.allowedHosts),
+          includePatterns: splitLines(form.includePatterns),
+          excludePatterns: splitLines(form.excludePatterns),
+          queryAllowlist: splitLines(form.queryAllowlist),
+          maxDepth: form.maxDepth.trim() === '' ? null : parseInt(form.maxDepth, 10),
+          maxPages: parseInt(form.maxPages, 10),
+          interactionRules,
+          isActive: form.isActive,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setConfigForm(null)
+        setConfigMessage(`Saved "${data.data.config.name}"`)
+        await fetchCrawlConfigs()
+      } else {
+        setConfigMessage(data.message || 'Failed to save crawl config')
+      }
+    } catch (err) {
+      setConfigMessage(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  const deleteCrawlConfig = async (config: CrawlConfig) => {
+    if (!confirm(`Delete crawl config "${config.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/crawl-config/${config.id}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        if (configForm?.id === config.id) setConfigForm(null)
+        await fetchCrawlConfigs()
+      } else {
+        setConfigMessage(data.message || 'Failed to delete crawl config')
+      }
+    } catch (err) {
+      setConfigMessage(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  const fetchAuthStatus = async () => {
+    try {
+      const response = await fetch('/api/admin/crawl-auth', {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setAuthStatus(data.data)
+      } else {
+        setError(data.message || 'Failed to fetch crawl auth status')
+      }
+    } catch (err) {
+      console.error('Error fetching crawl auth status:', err)
+    }
+  }
+
+  const uploadStorageState = async (file: File) => {
+    setAuthMessage('')
+
+    try {
+      const response = await fetch('/api/admin/crawl-auth', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: await file.text(),
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setAuthStatus(data.data)
+        setAuthMessage(`Saved storage state with ${data.data.cookieCount} cookie(s)`)
+      } else {
+        setAuthMessage(data.message || 'Failed to save storage state')
+      }
+    } catch (err) {
+      setAuthMessage(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  const clearStorageState = async () => {
+    if (!confirm('Remove the saved storage state?')) return
+    setAuthMessage('')
+
+    try {
+      const response = await fetch('/api/admin/crawl-auth', {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setAuthStatus(data.data)
+        setAuthMessage('Storage state removed')
+      } else {
+        setAuthMessage(data.message || 'Failed to remove storage state')
+      }
+    } catch (err) {
+      setAuthMessage(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  const fetchUploads = async () => {
+    try {
+      const response = await fetch('/api/admin/uploads', {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setUploads(data.data.uploads)
+      } else {
+        setError(data.message || 'Failed to fetch uploaded documents')
+      }
+    } catch (err) {
+      console.error('Error fetching uploaded documents:', err)
+    }
+  }
+
+  const uploadDocument = async (file: File) => {
+    setIsUploading(true)
+    setUploadMessage('')
+
+    try {
+      const form = new FormData()
+      form.append('file', file)
+
+      const response = await fetch('/api/admin/uploads', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: form,
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setUploadMessage(
+          `${data.data.replaced ? 'Replaced' : 'Indexed'} "${data.data.title}" (${data.data.chunksCreated} chunks)`
+        )
+        await fetchUploads()
+      } else {
+        setUploadMessage(data.message || 'Upload failed')
+      }
+    } catch (err) {
+      setUploadMessage(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const deleteUpload = async (upload: UploadedDocument) => {
+    if (!confirm(`Remove "${upload.title}" and its chunks from the index?`)) return
+    setUploadMessage('')
+
+    try {
+      const response = await fetch(`/api/admin/uploads/${upload.id}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setUploadMessage(`Removed "${upload.title}"`)
+        await fetchUploads()
+      } else {
+        setUploadMessage(data.message || 'Failed to remove document')
+      }
+    } catch (err) {
+      setUploadMessage(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/admin/schedules', {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setSchedules(data.data.schedules)
+      } else {
+        setError(data.message || 'Failed to fetch reindex schedules')
+      }
+    } catch (err) {
+      console.error('Error fetching reindex schedules:', err)
+    }
+  }
+
+  const saveSchedule = async (form: ScheduleForm) => {
+    setScheduleMessage('')
+
+    try {
+      const response = await fetch(form.id ? `/api/admin/schedules/${form.id}` : '/api/admin/schedules', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${adminToken}`,
+        },
+        body: JSON.stringify({
+          name: form.name.trim(),
+          cron: form.cron.trim(),
+          enabled: form.enabled,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setScheduleForm(null)
+        setScheduleMessage(`Saved "${data.data.schedule.name}"`)
+        await fetchSchedules()
+      } else {
+        setScheduleMessage(data.message || 'Failed to save reindex schedule')
+      }
+    } catch (err) {
+      setScheduleMessage(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  const deleteSchedule = async (schedule: ReindexSchedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return
+    setScheduleMessage('')
+
+    try {
+      const response = await fetch(`/api/admin/schedules/${schedule.id}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setScheduleMessage(`Deleted "${schedule.name}"`)
+        await fetchSchedules()
+      } else {
+        setScheduleMessage(data.message || 'Failed to delete reindex schedule')
+      }
+    } catch (err) {
+      setScheduleMessage(err instanceof Error ? err.message : 'Network error')
+    }
+  }
+
+  const fetchIndexVersions = async () => {
+    try {
+      const response = await fetch('/api/admin/index-versions', {
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status === 'success') {
+        setIndexVersions(data.data.versions)
+      } else {
+        setError(data.message || 'Failed to fetch index versions')
+      }
+    } catch (err) {
+      console.error('Error fetching index versions:', err)
+    }
+  }
+
+  // Make a retired index version live again
+  const activateVersion = async (version: IndexVersion) => {
+    if (!confirm(`Make index version #${version.id} live? Search switches to it right away.`)) return
+
+    setActivatingVersionId(version.id)
+    setVersionMessage('')
+
+    try {
+      const response = await fetch(`/api/admin/index-versions/${version.id}/activate`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
 
-  // Load admin token from localStorage on mount
-  useEffect(() => {
-    const storedToken = localStorage.getItem('adminToken')
-    if (storedToken) {
-      setAdminToken(storedToken)
-    }
-  }, [])
+      const data = await response.json()
 
-  // Fetch crawl sessions when token is set
-  useEffect(() => {
-    if (adminToken) {
-      fetchCrawlSessions()
+      if (data.status === 'success') {
+        setVersionMessage(`Index version #${version.id} is live`)
+      } else {
+        setVersionMessage(data.message || 'Failed to activate index version')
+      }
+      await fetchIndexVersions()
+    } catch (err) {
+      setVersionMessage(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setActivatingVersionId(null)
     }
-  }, [adminToken])
+  }
 
-  // Fetch navigation steps when a session is selected
-  useEffect(() => {
-    if (selectedSessionId && adminToken) {
-      fetchNavigationSteps(selectedSessionId)
-    }
-  }, [selectedSessionId, adminToken])
+  // Poll a background job until it finishes, refreshing the crawl history so the session can be paused or cancelled
+  const watchJob = async (jobId: number) => {
+    if (watchedJobIdRef.current === jobId) return
+    watchedJobIdRef.current = jobId
 
-  const saveToken = () => {
-    if (tokenInput.trim()) {
-      localStorage.setItem('adminToken', tokenInput.trim())
-      setAdminToken(tokenInput.trim())
-      setTokenInput('')
-      setError('')
+    try {
+      while (true) {
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+
+        const response = await fetch(`/api/admin/jobs/${jobId}`, {
+          headers: {
+            Authorization: `Bearer ${adminToken}`,
+          },
+        })
+
+        const data = await response.json()
+
+        if (data.status !== 'success') {
+          setError(data.message || 'Failed to fetch job progress')
+          return
+        }
+
+        const job: ReindexJob = data.data
+        setActiveJob(job)
+        await fetchCrawlSessions()
+
+        if (job.status !== 'queued' && job.status !== 'running') {
+          await fetchIndexVersions()
+          if (job.type === 'reprocess') {
+            setLastReprocessResult(job.result)
+          } else if (job.result) {
+            setLastReindexResult(job.result)
+            setSelectedSessionId(job.result.crawlSessionId)
+          }
+          if (job.error) {
+            setError(job.error)
+          }
+          return
+        }
+      }
+    } finally {
+      // Another job may have started meanwhile; leave it in place
+      if (watchedJobIdRef.current === jobId) {
+        watchedJobIdRef.current = null
+      }
+      setActiveJob(current => (current?.id === jobId ? null : current))
     }
   }
 
-  const clearToken = () => {
-    localStorage.removeItem('adminToken')
-    setAdminToken('')
-    setError('')
-  }
+  // Pick up a job this tab did not start and show its progress
+  const fetchActiveJob = async () => {
+    if (watchedJobIdRef.current !== null) return
 
-  const fetchCrawlSessions = async () => {
     try {
-      const response = await fetch('/api/admin/crawl-sessions', {
+      const response = await fetch('/api/admin/jobs', {
         headers: {
           Authorization: `Bearer ${adminToken}`,
         },
@@ -92,24 +959,25 @@ export default function AdminPage() {
 
       const data = await response.json()
 
-      if (data.status === 'success') {
-        setCrawlSessions(data.data.sessions)
-        // Auto-select the most recent session
-        if (data.data.sessions.length > 0 && !selectedSessionId) {
-          setSelectedSessionId(data.data.sessions[0].id)
-        }
-      } else {
-        setError(data.message || 'Failed to fetch crawl sessions')
+      if (data.status === 'success' && data.data.activeJob) {
+        setActiveJob(data.data.activeJob)
+        await watchJob(data.data.activeJob.id)
       }
     } catch (err) {
-      console.error('Error fetching crawl sessions:', err)
+      console.error('Error fetching active job:', err)
     }
   }
 
-  const fetchNavigationSteps = async (sessionId: number) => {
+  // Start a reindex or resume job and follow it to the end
+  const runJob = async (url: string, failureMessage: string) => {
+    setError('')
+    setLastReindexResult(null)
+
     try {
-      const response = await fetch(`/api/admin/navigation/${sessionId}`, {
+      const response = await fetch(url, {
+        method: 'POST',
         headers: {
+          'Content-Type': 'application/json',
           Authorization: `Bearer ${adminToken}`,
         },
       })
@@ -117,12 +985,12 @@ export default function AdminPage() {
       const data = await response.json()
 
       if (data.status === 'success') {
-        setNavigationSteps(data.data.navigationSteps)
+        await watchJob(data.data.jobId)
       } else {
-        setError(data.message || 'Failed to fetch navigation steps')
+        setError(data.message || failureMessage)
       }
     } catch (err) {
-      console.error('Error fetching navigation steps:', err)
+      setError(err instanceof Error ? err.message : 'Network error')
     }
   }
 
@@ -133,14 +1001,61 @@ export default function AdminPage() {
     }
 
     setIsLoading(true)
+    await runJob('/api/admin/reindex', 'Reindex failed')
+    setIsLoading(false)
+  }
+
+  const resumeSession = async (sessionId: number) => {
+    setResumingSessionId(sessionId)
+    await runJob(`/api/admin/crawl-sessions/${sessionId}/resume`, 'Resume failed')
+    setResumingSessionId(null)
+  }
+
+  // Pause or cancel a crawl session; a running one stops at its next page
+  const stopSession = async (sessionId: number, action: 'pause' | 'cancel', running: boolean) => {
+    if (action === 'cancel' && !running && !confirm(`Discard the saved crawl state of session #${sessionId}?`)) return
+
+    setStoppingSessionId(sessionId)
     setError('')
-    setLastReindexResult(null)
 
     try {
-      const response = await fetch('/api/admin/reindex', {
+      const response = await fetch(`/api/admin/crawl-sessions/${sessionId}/${action}`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
+          Authorization: `Bearer ${adminToken}`,
+        },
+      })
+
+      const data = await response.json()
+
+      if (data.status !== 'success') {
+        setError(data.message || `Failed to ${action} crawl session`)
+      }
+      await fetchCrawlSessions()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error')
+    } finally {
+      setStoppingSessionId(null)
+    }
+  }
+
+  const reprocessSession = async (sessionId: number) => {
+    if (!confirm(`Rebuild the index from the archived pages of session #${sessionId}?`)) return
+
+    setReprocessingSessionId(sessionId)
+    setLastReprocessResult(null)
+    await runJob(`/api/admin/crawl-sessions/${sessionId}/reprocess`, 'Reprocess failed')
+    setReprocessingSessionId(null)
+  }
+
+  const compareSession = async (sessionId: number, againstId?: number) => {
+    setDiffingSessionId(sessionId)
+    setError('')
+
+    try {
+      const query = againstId !== undefined ? `?against=${againstId}` : ''
+      const response = await fetch(`/api/admin/crawl-sessions/${sessionId}/diff${query}`, {
+        headers: {
           Authorization: `Bearer ${adminToken}`,
         },
       })
@@ -148,18 +1063,14 @@ export default function AdminPage() {
       const data = await response.json()
 
       if (data.status === 'success') {
-        setLastReindexResult(data.data)
-        // Refresh crawl sessions
-        await fetchCrawlSessions()
-        // Auto-select the new session
-        setSelectedSessionId(data.data.crawlSessionId)
+        setSessionDiff(data.data)
       } else {
-        setError(data.message || 'Reindex failed')
+        setError(data.message || 'Failed to compare crawl sessions')
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Network error')
     } finally {
-      setIsLoading(false)
+      setDiffingSessionId(null)
     }
   }
 
@@ -232,14 +1143,42 @@ export default function AdminPage() {
           </p>
           <button
             onClick={triggerReindex}
-            disabled={isLoading}
+            disabled={isLoading || activeJob !== null}
             className={`${
-              isLoading ? 'bg-gray-400' : 'bg-green-600 hover:bg-green-700'
+              isLoading || activeJob !== null ? 'bg-gray-400' : 'bg-green-600 hover:bg-green-700'
             } text-white py-2 px-6 rounded transition font-semibold`}
           >
-            {isLoading ? 'Reindexing...' : 'Start Reindex'}
+            {isLoading || activeJob !== null ? 'Reindexing...' : 'Start Reindex'}
           </button>
 
+          {activeJob && (
+            <div className="mt-4">
+              <div className="flex justify-between text-sm text-gray-700 mb-1">
+                <span>
+                  Job #{activeJob.id} ({activeJob.type}
+                  {activeJob.crawlSessionId !== null && `, session #${activeJob.crawlSessionId}`}) •{' '}
+                  {activeJob.type === 'reprocess' && activeJob.stage === 'crawl'
+                    ? 'Re-extracting archived pages'
+                    : activeJob.stage
+                      ? JOB_STAGE_LABELS[activeJob.stage]
+                      : 'Starting'}
+                </span>
+                <span className="font-semibold">{activeJob.percent}%</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded h-3">
+                <div className="bg-green-600 h-3 rounded transition-all" style={{ width: `${activeJob.percent}%` }} />
+              </div>
+              {activeJob.counts && (
+                <p className="text-xs text-gray-600 mt-1">
+                  {activeJob.counts.pagesCrawled}/{activeJob.counts.maxPages} pages crawled •{' '}
+                  {activeJob.counts.pagesFailed} failed • {activeJob.counts.pagesSkipped} skipped
+                  {activeJob.counts.chunksCreated > 0 &&
+                    ` • ${activeJob.counts.embeddingsGenerated}/${activeJob.counts.chunksCreated} embeddings • ${activeJob.counts.chunksStored}/${activeJob.counts.chunksCreated} chunks stored`}
+                </p>
+              )}
+            </div>
+          )}
+
           {error && (
             <div className="mt-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded">
               {error}
@@ -248,22 +1187,483 @@ export default function AdminPage() {
 
           {lastReindexResult && (
             <div className="mt-4 bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded">
-              <h3 className="font-bold mb-2">Reindex Complete!</h3>
+              <h3 className="font-bold mb-2">
+                {lastReindexResult.status === 'paused'
+                  ? 'Reindex Paused (index unchanged)'
+                  : lastReindexResult.status === 'cancelled'
+                  ? 'Reindex Cancelled (index unchanged)'
+                  : lastReindexResult.status === 'failed'
+                  ? 'Reindex Failed (no pages crawled)'
+                  : 'Reindex Complete!'}
+              </h3>
               <div className="text-sm space-y-1">
-                <p>Pages Crawled: {lastReindexResult.pagesCrawled}</p>
+                <p>Pages Crawled: {lastReindexResult.pagesIndexed}</p>
+                <p>Pages Failed: {lastReindexResult.pagesFailed}</p>
+                <p>
+                  Changes: {lastReindexResult.pagesNew} new, {lastReindexResult.pagesChanged} changed,{' '}
+                  {lastReindexResult.pagesUnchanged} unchanged, {lastReindexResult.pagesRemoved} removed
+                </p>
                 <p>Chunks Created: {lastReindexResult.chunksCreated}</p>
-                <p>Embeddings Generated: {lastReindexResult.embeddingsGenerated}</p>
+                <p>
+                  Embeddings Generated: {lastReindexResult.embeddingsGenerated} ({lastReindexResult.embeddingCacheHits}{' '}
+                  from cache, {lastReindexResult.embeddingCacheMisses} from OpenAI)
+                </p>
                 <p>Navigation Steps: {lastReindexResult.navigationSteps}</p>
                 <p>Duration: {formatDuration(lastReindexResult.duration)}</p>
                 <p>Crawl Session ID: {lastReindexResult.crawlSessionId}</p>
+                {lastReindexResult.indexVersionId !== null && (
+                  <p>Index Version: #{lastReindexResult.indexVersionId} (live)</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Reindex Schedules */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold">Reindex Schedules</h2>
+            <button
+              onClick={() => setScheduleForm({ id: null, name: '', cron: SCHEDULE_PRESETS[0].cron, enabled: true })}
+              className="bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 transition text-sm"
+            >
+              New Schedule
+            </button>
+          </div>
+          <p className="text-gray-600 mb-4 text-sm">
+            Reindexes start automatically at the times of enabled schedules (cron syntax:{' '}
+            <code>minute hour day-of-month month day-of-week</code>, server time). A run is skipped when a reindex is
+            already going.
+          </p>
+
+          {schedules.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {schedules.map((schedule) => (
+                <div
+                  key={schedule.id}
+                  className={`border rounded p-3 flex items-start justify-between ${
+                    schedule.enabled ? 'border-gray-300' : 'border-gray-200 bg-gray-50 text-gray-500'
+                  }`}
+                >
+                  <div className="text-sm">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-semibold">{schedule.name}</span>
+                      <code className="px-2 py-0.5 bg-gray-100 text-xs rounded">{schedule.cron}</code>
+                      {!schedule.enabled && (
+                        <span className="px-2 py-0.5 bg-gray-200 text-gray-700 text-xs rounded">Disabled</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {schedule.nextRunAt ? `Next run ${formatDate(schedule.nextRunAt)}` : 'Not scheduled'}
+                      {schedule.lastRunAt &&
+                        ` • last run ${formatDate(schedule.lastRunAt)} (${schedule.lastRunStatus}${
+                          schedule.lastRunStatus === 'started' && schedule.lastJobId ? `, job #${schedule.lastJobId}` : ''
+                        })`}
+                    </div>
+                  </div>
+                  <div className="flex gap-3 ml-4 text-sm font-semibold">
+                    <button
+                      onClick={() => saveSchedule({ ...schedule, enabled: !schedule.enabled })}
+                      className={schedule.enabled ? 'text-orange-600 hover:text-orange-800' : 'text-green-600 hover:text-green-800'}
+                    >
+                      {schedule.enabled ? 'Disable' : 'Enable'}
+                    </button>
+                    <button onClick={() => setScheduleForm({ ...schedule })} className="text-blue-600 hover:text-blue-800">
+                      Edit
+                    </button>
+                    <button onClick={() => deleteSchedule(schedule)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {scheduleForm && (
+            <div className="border border-blue-300 rounded p-4 space-y-3 text-sm">
+              <input
+                type="text"
+                value={scheduleForm.name}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, name: e.target.value })}
+                placeholder="Schedule name, e.g. Open enrollment"
+                className="w-full px-3 py-2 border border-gray-300 rounded"
+              />
+              <input
+                type="text"
+                value={scheduleForm.cron}
+                onChange={(e) => setScheduleForm({ ...scheduleForm, cron: e.target.value })}
+                placeholder="0 2 * * *"
+                className="w-full px-3 py-2 border border-gray-300 rounded font-mono"
+              />
+              <div className="flex flex-wrap gap-2">
+                {SCHEDULE_PRESETS.map((preset) => (
+                  <button
+                    key={preset.cron}
+                    onClick={() => setScheduleForm({ ...scheduleForm, cron: preset.cron })}
+                    className="px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 text-xs"
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={scheduleForm.enabled}
+                  onChange={(e) => setScheduleForm({ ...scheduleForm, enabled: e.target.checked })}
+                />
+                Enabled
+              </label>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => saveSchedule(scheduleForm)}
+                  className="bg-green-600 text-white py-2 px-4 rounded hover:bg-green-700 transition"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setScheduleForm(null)}
+                  className="bg-gray-200 text-gray-800 py-2 px-4 rounded hover:bg-gray-300 transition"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          {scheduleMessage && <p className="mt-3 text-sm text-gray-700">{scheduleMessage}</p>}
+        </div>
+
+        {/* Crawl Configuration */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold">Crawl Configuration</h2>
+            <button
+              onClick={() => configDefaults && setConfigForm(toConfigForm({ ...configDefaults, name: 'New config' }))}
+              className="bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 transition text-sm"
+            >
+              New Config
+            </button>
+          </div>
+          <p className="text-gray-600 mb-4 text-sm">
+            The active config decides where the next reindex starts and which links it follows. Rules match the URL path;
+            use globs like <code>/en-us/colleagues/**</code> or regexes prefixed with <code>re:</code>.
+            {!crawlConfigs.some(config => config.isActive) && ' No config is active, so environment defaults are used.'}
+          </p>
+
+          {crawlConfigs.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {crawlConfigs.map((config) => (
+                <div
+                  key={config.id}
+                  className={`border rounded p-3 flex items-start justify-between ${
+                    config.isActive ? 'border-green-300 bg-green-50' : 'border-gray-300'
+                  }`}
+                >
+                  <div className="text-sm">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-semibold">{config.name}</span>
+                      {config.isActive && (
+                        <span className="px-2 py-0.5 bg-green-200 text-green-800 text-xs rounded">Active</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {config.seedUrls.length} seed(s) • {config.includePatterns.length} include /{' '}
+                      {config.excludePatterns.length} exclude rules • max depth {config.maxDepth ?? 'unlimited'} •{' '}
+                      {config.maxPages} pages •{' '}
+                      {config.queryAllowlist.length > 0 ? `query ${config.queryAllowlist.join(', ')} • ` : ''}
+                      {config.interactionRules ? `${config.interactionRules.length} interaction rule(s)` : 'default interactions'}
+                    </div>
+                    <div className="text-xs text-gray-500 break-all">{config.seedUrls.join(', ')}</div>
+                  </div>
+                  <div className="flex gap-3 ml-4 text-sm font-semibold">
+                    {!config.isActive && (
+                      <button
+                        onClick={() => saveCrawlConfig({ ...toConfigForm(config), isActive: true })}
+                        className="text-green-600 hover:text-green-800"
+                      >
+                        Activate
+                      </button>
+                    )}
+                    <button onClick={() => setConfigForm(toConfigForm(config))} className="text-blue-600 hover:text-blue-800">
+                      Edit
+                    </button>
+                    <button onClick={() => deleteCrawlConfig(config)} className="text-red-600 hover:text-red-800">
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {configForm && (
+            <div className="border border-blue-300 rounded p-4 space-y-3 text-sm">
+              <input
+                type="text"
+                value={configForm.name}
+                onChange={(e) => setConfigForm({ ...configForm, name: e.target.value })}
+                placeholder="Config name"
+                className="w-full px-3 py-2 border border-gray-300 rounded"
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {([
+                  ['seedUrls', 'Seed URLs'],
+                  ['allowedHosts', 'Allowed hosts (seed hosts are always allowed)'],
+                  ['includePatterns', 'Include rules (empty includes everything)'],
+                  ['excludePatterns', 'Exclude rules'],
+                  ['queryAllowlist', 'Query parameters that identify a page (all others are dropped)'],
+                ] as const).map(([field, label]) => (
+                  <label key={field} className="block">
+                    <span className="text-gray-700">{label}</span>
+                    <textarea
+                      value={configForm[field]}
+                      onChange={(e) => setConfigForm({ ...configForm, [field]: e.target.value })}
+                      rows={3}
+                      className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-xs"
+                    />
+                  </label>
+                ))}
+              </div>
+              <label className="block">
+                <span className="text-gray-700">
+                  Interaction rules, run before extraction (JSON list of{' '}
+                  <code>{'{ "urlPattern", "action": "click" | "click_first" | "reveal", "selector" }'}</code>; empty uses
+                  the built-in defaults)
+                </span>
+                <textarea
+                  value={configForm.interactionRules}
+                  onChange={(e) => setConfigForm({ ...configForm, interactionRules: e.target.value })}
+                  rows={6}
+                  className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-xs"
+                />
+              </label>
+              <div className="flex flex-wrap items-center gap-4">
+                <label>
+                  Max depth{' '}
+                  <input
+                    type="number"
+                    min={0}
+                    value={configForm.maxDepth}
+                    onChange={(e) => setConfigForm({ ...configForm, maxDepth: e.target.value })}
+                    placeholder="unlimited"
+                    className="w-28 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </label>
+                <label>
+                  Page budget{' '}
+                  <input
+                    type="number"
+                    min={1}
+                    value={configForm.maxPages}
+                    onChange={(e) => setConfigForm({ ...configForm, maxPages: e.target.value })}
+                    className="w-24 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={configForm.isActive}
+                    onChange={(e) => setConfigForm({ ...configForm, isActive: e.target.checked })}
+                  />
+                  Active
+                </label>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => saveCrawlConfig(configForm)}
+                  className="bg-green-600 text-white py-2 px-4 rounded hover:bg-green-700 transition"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setConfigForm(null)}
+                  className="bg-gray-200 text-gray-800 py-2 px-4 rounded hover:bg-gray-300 transition"
+                >
+                  Cancel
+                </button>
               </div>
             </div>
           )}
+
+          {configMessage && <p className="mt-3 text-sm text-gray-700">{configMessage}</p>}
+        </div>
+
+        {/* Crawl Authentication */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-2xl font-bold mb-4">Crawl Authentication</h2>
+          <p className="text-gray-600 mb-4 text-sm">
+            For SSO-protected pages, upload a Playwright storage state (saved with{' '}
+            <code>context.storageState(&#123; path &#125;)</code> after signing in) or set the <code>SCRAPER_LOGIN_*</code>{' '}
+            environment variables for a scripted login. A crawl redirected to a sign-on page stops as{' '}
+            <code>auth_expired</code> and can be resumed once the credentials are renewed.
+          </p>
+          {authStatus && (
+            <div className="text-sm mb-4 space-y-1">
+              <p>
+                Mode:{' '}
+                <span className="font-semibold">
+                  {authStatus.mode === 'scripted_login'
+                    ? `Scripted login at ${authStatus.loginUrl}`
+                    : authStatus.mode === 'storage_state'
+                    ? 'Saved storage state'
+                    : 'None (anonymous crawl)'}
+                </span>
+              </p>
+              {authStatus.storageStateSavedAt && (
+                <p className="text-gray-600">
+                  Storage state saved {formatDate(authStatus.storageStateSavedAt)} ({authStatus.cookieCount} cookie(s))
+                </p>
+              )}
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="bg-blue-600 text-white py-2 px-4 rounded hover:bg-blue-700 transition cursor-pointer">
+              Upload Storage State
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) uploadStorageState(file)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+            {authStatus?.storageStateSavedAt && (
+              <button
+                onClick={clearStorageState}
+                className="bg-gray-200 text-gray-800 py-2 px-4 rounded hover:bg-gray-300 transition"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+          {authMessage && <p className="mt-3 text-sm text-gray-700">{authMessage}</p>}
+        </div>
+
+        {/* Uploaded Documents */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-2xl font-bold mb-4">Uploaded Documents</h2>
+          <p className="text-gray-600 mb-4 text-sm">
+            Index HR-provided content that is not on the website (Markdown, HTML or plain text). Uploaded documents are
+            kept across reindexes; uploading a file with the same name replaces it.
+          </p>
+          {uploads.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {uploads.map((upload) => (
+                <div key={upload.id} className="border border-gray-300 rounded p-3 flex items-start justify-between">
+                  <div className="text-sm">
+                    <div className="font-semibold">{upload.title}</div>
+                    <div className="text-xs text-gray-600">
+                      {upload.fileName} • {upload.chunks} chunks • uploaded {formatDate(upload.uploadedAt)}
+                    </div>
+                    <a
+                      href={upload.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:underline break-all"
+                    >
+                      {upload.url}
+                    </a>
+                  </div>
+                  <button
+                    onClick={() => deleteUpload(upload)}
+                    className="ml-4 text-red-600 hover:text-red-800 text-sm font-semibold"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <label
+            className={`inline-block py-2 px-4 rounded text-sm transition ${
+              isUploading ? 'bg-gray-400 text-white' : 'bg-blue-600 text-white hover:bg-blue-700 cursor-pointer'
+            }`}
+          >
+            {isUploading ? 'Indexing...' : 'Upload Document'}
+            <input
+              type="file"
+              accept=".md,.markdown,.html,.htm,.txt"
+              className="hidden"
+              disabled={isUploading}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) uploadDocument(file)
+                e.target.value = ''
+              }}
+            />
+          </label>
+          {uploadMessage && <p className="mt-3 text-sm text-gray-700">{uploadMessage}</p>}
+        </div>
+
+        {/* Index Versions */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-2xl font-bold mb-4">Index Versions</h2>
+          <p className="text-gray-600 mb-4 text-sm">
+            Each reindex builds a new version next to the live one and switches search to it only when it succeeds.
+            Roll back by making a retired version live again. Uploaded documents are not versioned.
+          </p>
+          {indexVersions.length === 0 ? (
+            <p className="text-gray-500 text-sm">No index versions yet</p>
+          ) : (
+            <div className="space-y-2">
+              {indexVersions.map((version) => (
+                <div key={version.id} className="border border-gray-300 rounded p-3 flex items-center justify-between">
+                  <div className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">Version #{version.id}</span>
+                      <span className={`px-2 py-0.5 rounded text-xs font-semibold ${VERSION_STATUS_STYLES[version.status]}`}>
+                        {version.status}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {version.crawlSessionId !== null ? `Session #${version.crawlSessionId}` : 'No session'} •{' '}
+                      {version.pages} pages • {version.chunks} chunks • built {formatDate(version.createdAt)}
+                      {version.activatedAt && ` • last live ${formatDate(version.activatedAt)}`}
+                    </div>
+                    {version.embeddingModel && (
+                      <div className="text-xs text-gray-500">
+                        {version.embeddingModel} ({version.embeddingDimensions} dims)
+                        {version.chunkSettings &&
+                          ` • chunks of ${version.chunkSettings.maxChunkWords} words, ${version.chunkSettings.chunkOverlapWords} overlap, tables ${version.chunkSettings.maxTableChunkWords}`}
+                      </div>
+                    )}
+                  </div>
+                  {version.status === 'retired' && (
+                    <button
+                      onClick={() => activateVersion(version)}
+                      disabled={activatingVersionId !== null || activeJob !== null}
+                      className={`ml-4 py-1 px-3 rounded text-sm transition ${
+                        activatingVersionId !== null || activeJob !== null
+                          ? 'bg-gray-400 text-white'
+                          : 'bg-orange-500 text-white hover:bg-orange-600'
+                      }`}
+                    >
+                      {activatingVersionId === version.id ? 'Switching...' : 'Roll Back'}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {versionMessage && <p className="mt-3 text-sm text-gray-700">{versionMessage}</p>}
         </div>
 
         {/* Crawl Sessions */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-6">
           <h2 className="text-2xl font-bold mb-4">Crawl History</h2>
+          {lastReprocessResult && (
+            <div className="mb-4 p-4 bg-green-50 border border-green-200 rounded text-sm text-green-700">
+              Reprocessed session #{lastReprocessResult.crawlSessionId} from archive:{' '}
+              {lastReprocessResult.pagesReprocessed} pages, {lastReprocessResult.chunksCreated} chunks,{' '}
+              {lastReprocessResult.pagesMissing} missing from archive, {lastReprocessResult.pagesRemoved} removed (
+              {formatDuration(lastReprocessResult.duration)})
+            </div>
+          )}
           {crawlSessions.length === 0 ? (
             <p className="text-gray-600">No crawl sessions yet. Trigger a reindex to get started!</p>
           ) : (
@@ -274,7 +1674,9 @@ export default function AdminPage() {
                     <th className="text-left py-2 px-4">ID</th>
                     <th className="text-left py-2 px-4">Started</th>
                     <th className="text-left py-2 px-4">Status</th>
+                    <th className="text-left py-2 px-4">Config</th>
                     <th className="text-left py-2 px-4">Pages</th>
+                    <th className="text-left py-2 px-4">Changes</th>
                     <th className="text-left py-2 px-4">Nav Steps</th>
                     <th className="text-left py-2 px-4">Duration</th>
                     <th className="text-left py-2 px-4">Actions</th>
@@ -295,24 +1697,82 @@ export default function AdminPage() {
                           className={`px-2 py-1 rounded text-xs font-semibold ${
                             session.status === 'completed'
                               ? 'bg-green-200 text-green-800'
-                              : session.status === 'failed'
+                              : session.status === 'failed' || session.status === 'auth_expired'
                               ? 'bg-red-200 text-red-800'
+                              : session.status === 'interrupted' || session.status === 'paused'
+                              ? 'bg-orange-200 text-orange-800'
+                              : session.status === 'cancelled'
+                              ? 'bg-gray-200 text-gray-800'
                               : 'bg-yellow-200 text-yellow-800'
                           }`}
                         >
                           {session.status}
                         </span>
                       </td>
+                      <td className="py-2 px-4 text-sm">{session.configName ?? 'N/A'}</td>
                       <td className="py-2 px-4">{session.pagesScraped}</td>
+                      <td className="py-2 px-4 text-xs text-gray-600">
+                        +{session.pagesNew} ~{session.pagesChanged} ={session.pagesUnchanged} -{session.pagesRemoved}
+                      </td>
                       <td className="py-2 px-4">{session.navigationStepsCount}</td>
                       <td className="py-2 px-4">{formatDuration(session.duration)}</td>
-                      <td className="py-2 px-4">
+                      <td className="py-2 px-4 space-x-3">
                         <button
                           onClick={() => setSelectedSessionId(session.id)}
                           className="text-blue-600 hover:text-blue-800 text-sm font-semibold"
                         >
                           View Steps
                         </button>
+                        {session.resumable && (
+                          <button
+                            onClick={() => resumeSession(session.id)}
+                            disabled={resumingSessionId !== null || isLoading || activeJob !== null}
+                            title={session.checkpointAt ? `Last checkpoint ${formatDate(session.checkpointAt)}` : undefined}
+                            className="text-orange-600 hover:text-orange-800 text-sm font-semibold disabled:text-gray-400"
+                          >
+                            {resumingSessionId === session.id ? 'Resuming...' : 'Resume'}
+                          </button>
+                        )}
+                        {session.status === 'in_progress' && (
+                          <button
+                            onClick={() => stopSession(session.id, 'pause', true)}
+                            disabled={stoppingSessionId !== null}
+                            title="Stop at the next page and keep the checkpoint to resume from"
+                            className="text-orange-600 hover:text-orange-800 text-sm font-semibold disabled:text-gray-400"
+                          >
+                            Pause
+                          </button>
+                        )}
+                        {(session.status === 'in_progress' || session.status === 'pausing' || session.resumable) && (
+                          <button
+                            onClick={() => stopSession(session.id, 'cancel', RUNNING_SESSION_STATUSES.includes(session.status))}
+                            disabled={stoppingSessionId !== null || resumingSessionId === session.id}
+                            title="Stop without changing the index"
+                            className="text-red-600 hover:text-red-800 text-sm font-semibold disabled:text-gray-400"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                        {session.archivedPages > 0 && (
+                          <button
+                            onClick={() => compareSession(session.id)}
+                            disabled={diffingSessionId !== null}
+                            title="What changed since the previous completed crawl"
+                            className="text-teal-600 hover:text-teal-800 text-sm font-semibold disabled:text-gray-400"
+                          >
+                            {diffingSessionId === session.id ? 'Comparing...' : 'Changes'}
+                          </button>
+                        )}
+                        {session.archivedPages > 0 && !RUNNING_SESSION_STATUSES.includes(session.status) && (
+                          <button
+                            onClick={() => reprocessSession(session.id)}
+                            disabled={reprocessingSessionId !== null || resumingSessionId !== null || isLoading || activeJob !== null}
+                            title={`Rebuild the index from ${session.archivedPages} archived page(s) without recrawling`}
+                            className="text-purple-600 hover:text-purple-800 text-sm font-semibold disabled:text-gray-400"
+                          >
+                            {reprocessingSessionId === session.id ? 'Reprocessing...' : 'Reprocess'}
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -322,18 +1782,184 @@ export default function AdminPage() {
           )}
         </div>
 
+        {/* Content Changes */}
+        {sessionDiff && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold">
+                Content Changes - Session #{sessionDiff.crawlSessionId} vs #{sessionDiff.againstSessionId}
+              </h2>
+              <div className="flex items-center gap-3 text-sm">
+                <label>
+                  Compare against{' '}
+                  <select
+                    value={sessionDiff.againstSessionId}
+                    onChange={(e) => compareSession(sessionDiff.crawlSessionId, parseInt(e.target.value, 10))}
+                    disabled={diffingSessionId !== null}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  >
+                    {crawlSessions
+                      .filter(session => session.id !== sessionDiff.crawlSessionId && session.archivedPages > 0)
+                      .map(session => (
+                        <option key={session.id} value={session.id}>
+                          #{session.id} ({formatDate(session.startedAt)})
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <button onClick={() => setSessionDiff(null)} className="text-gray-600 hover:text-gray-800 font-semibold">
+                  Close
+                </button>
+              </div>
+            </div>
+            <p className="text-sm text-gray-700 mb-4">
+              {sessionDiff.added.length} added • {sessionDiff.removed.length} removed • {sessionDiff.modified.length}{' '}
+              modified • {sessionDiff.unchangedCount} unchanged
+            </p>
+
+            {(sessionDiff.added.length > 0 || sessionDiff.removed.length > 0) && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 text-sm">
+                {([
+                  ['Added pages', sessionDiff.added, 'text-green-700'],
+                  ['Removed pages', sessionDiff.removed, 'text-red-700'],
+                ] as const).map(([label, urls, color]) => (
+                  <div key={label}>
+                    <h3 className="font-semibold mb-1">{label}</h3>
+                    {urls.length === 0 ? (
+                      <p className="text-gray-500">None</p>
+                    ) : (
+                      <ul className={`${color} break-all space-y-1`}>
+                        {urls.map(url => <li key={url}>{url}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              {sessionDiff.modified.map((page) => (
+                <div key={page.url} className="border border-gray-300 rounded p-3">
+                  <div className="font-semibold">{page.title}</div>
+                  <div className="text-xs text-gray-500 break-all mb-2">{page.url}</div>
+                  {([
+                    ['Amounts', page.amounts],
+                    ['Dates', page.dates],
+                  ] as const).map(([label, change]) =>
+                    change.added.length > 0 || change.removed.length > 0 ? (
+                      <div key={label} className="text-xs mb-1 flex flex-wrap gap-1 items-center">
+                        <span className="font-semibold text-gray-700">{label}:</span>
+                        {change.removed.map(fact => (
+                          <span key={`-${fact}`} className="px-2 py-0.5 bg-red-100 text-red-800 rounded line-through">
+                            {fact}
+                          </span>
+                        ))}
+                        {change.added.map(fact => (
+                          <span key={`+${fact}`} className="px-2 py-0.5 bg-green-100 text-green-800 rounded">
+                            {fact}
+                          </span>
+                        ))}
+                      </div>
+                    ) : null
+                  )}
+                  {page.lines === null ? (
+                    <p className="text-xs text-gray-500">Snapshot not in the archive, no text diff available</p>
+                  ) : (
+                    <div className="font-mono text-xs mt-2 space-y-0.5">
+                      {page.lines.map((line, index) => (
+                        <div
+                          key={index}
+                          className={line.type === 'added' ? 'bg-green-50 text-green-900' : 'bg-red-50 text-red-900'}
+                        >
+                          {line.type === 'added' ? '+ ' : '- '}
+                          {renderDiffText(line)}
+                        </div>
+                      ))}
+                      {page.truncated && <div className="text-gray-500">More changed lines not shown</div>}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Navigation Steps */}
         {selectedSessionId && navigationSteps.length > 0 && (
           <div className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-2xl font-bold mb-4">
-              Navigation Steps - Session #{selectedSessionId}
-            </h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold">
+                Navigation Steps - Session #{selectedSessionId}
+              </h2>
+              <div className="flex items-center gap-2 text-sm">
+                {navigationView === 'tree' && crawlGraph && (
+                  <select
+                    value={graphMaxDepth}
+                    onChange={(e) => {
+                      setGraphMaxDepth(e.target.value)
+                      fetchCrawlGraph(selectedSessionId, e.target.value)
+                    }}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  >
+                    <option value="">All depths</option>
+                    {Array.from({ length: crawlGraph.maxDepth + 1 }, (_, depth) => (
+                      <option key={depth} value={depth}>
+                        Depth ≤ {depth}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={() => setNavigationView('list')}
+                  className={`px-3 py-1 rounded font-semibold ${
+                    navigationView === 'list' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  List
+                </button>
+                <button
+                  onClick={() => {
+                    setNavigationView('tree')
+                    fetchCrawlGraph(selectedSessionId, graphMaxDepth)
+                  }}
+                  className={`px-3 py-1 rounded font-semibold ${
+                    navigationView === 'tree' ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'
+                  }`}
+                >
+                  Tree
+                </button>
+              </div>
+            </div>
+            {navigationView === 'tree' ? (
+              crawlGraph && (
+                <div>
+                  <div className="flex gap-4 text-xs text-gray-600 mb-3">
+                    <span>{crawlGraph.nodes.length} pages</span>
+                    <span>{crawlGraph.edges.length} links</span>
+                    <span className="text-green-700">■ Scraped</span>
+                    <span className="text-red-700">■ Failed</span>
+                    <span className="text-yellow-700">■ Skipped</span>
+                  </div>
+                  <ul>
+                    {graphRoots.map(node => (
+                      <CrawlTreeNode key={node.id} node={node} childrenOf={graphChildren} />
+                    ))}
+                  </ul>
+                </div>
+              )
+            ) : (
             <div className="space-y-2">
               {navigationSteps.map((step, index) => (
                 <div
                   key={step.id}
                   className={`border rounded p-3 ${
-                    step.scraped ? 'border-green-300 bg-green-50' : 'border-gray-300 bg-gray-50'
+                    step.scraped
+                      ? 'border-green-300 bg-green-50'
+                      : step.failureReason
+                      ? 'border-red-300 bg-red-50'
+                      : step.skipReason
+                      ? 'border-yellow-300 bg-yellow-50'
+                      : 'border-gray-300 bg-gray-50'
                   }`}
                 >
                   <div className="flex items-start justify-between">
@@ -347,6 +1973,41 @@ export default function AdminPage() {
                             Scraped
                           </span>
                         )}
+                        {step.skipReason && (
+                          <span className="px-2 py-0.5 bg-yellow-200 text-yellow-800 text-xs rounded">
+                            Skipped: {step.skipReason.replace(/_/g, ' ')}
+                          </span>
+                        )}
+                        {step.failureReason && (
+                          <span className="px-2 py-0.5 bg-red-200 text-red-800 text-xs rounded">
+                            Failed: {step.failureReason.replace(/_/g, ' ')}
+                          </span>
+                        )}
+                        {step.httpStatus !== null && (
+                          <span className="px-2 py-0.5 bg-gray-200 text-gray-800 text-xs rounded">
+                            HTTP {step.httpStatus}
+                          </span>
+                        )}
+                        {step.interactionCount !== null && step.interactionCount > 0 && (
+                          <span className="px-2 py-0.5 bg-indigo-100 text-indigo-800 text-xs rounded">
+                            {step.interactionCount} {step.interactionCount === 1 ? 'interaction' : 'interactions'}
+                          </span>
+                        )}
+                        {step.retryCount > 0 && (
+                          <span className="px-2 py-0.5 bg-orange-100 text-orange-800 text-xs rounded">
+                            {step.retryCount} {step.retryCount === 1 ? 'retry' : 'retries'}
+                          </span>
+                        )}
+                        {step.extractor && (
+                          <span className="px-2 py-0.5 bg-purple-100 text-purple-800 text-xs rounded">
+                            {step.extractor === 'dom_fallback' ? 'DOM (LLM failed)' : step.extractor.toUpperCase()}
+                          </span>
+                        )}
+                        {step.sitemapLastmod && (
+                          <span className="px-2 py-0.5 bg-blue-100 text-blue-800 text-xs rounded">
+                            Sitemap • modified {new Date(step.sitemapLastmod).toLocaleDateString()}
+                          </span>
+                        )}
                       </div>
                       <div className="text-sm">
                         <a
@@ -358,6 +2019,11 @@ export default function AdminPage() {
                           {step.url}
                         </a>
                       </div>
+                      {step.canonicalUrl && step.canonicalUrl !== step.url && (
+                        <div className="text-xs text-green-700 mt-1 break-all">
+                          Stored as: {step.canonicalUrl}
+                        </div>
+                      )}
                       {step.linkText && (
                         <div className="text-xs text-gray-600 mt-1">
                           Link text: "{step.linkText}"
@@ -368,6 +2034,37 @@ export default function AdminPage() {
                           From: {step.parentUrl}
                         </div>
                       )}
+                      {step.extractionComparison && (
+                        <div className="text-xs text-purple-700 mt-1">
+                          Extractors: LLM {step.extractionComparison.llmChars} chars • DOM{' '}
+                          {step.extractionComparison.domChars} chars •{' '}
+                          {(step.extractionComparison.overlap * 100).toFixed(1)}% overlap •{' '}
+                          {(step.extractionComparison.llmCoverage * 100).toFixed(1)}% of LLM words found by DOM
+                        </div>
+                      )}
+                      {step.failureMessage && (
+                        <div className="text-xs text-red-700 mt-1 break-all">Error: {step.failureMessage}</div>
+                      )}
+                      {(step.artifacts.screenshot || step.artifacts.html) && (
+                        <div className="flex gap-3 mt-1 text-xs font-semibold">
+                          {step.artifacts.screenshot && (
+                            <button
+                              onClick={() => openArtifact(step.artifacts.screenshot!)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              View screenshot
+                            </button>
+                          )}
+                          {step.artifacts.html && (
+                            <button
+                              onClick={() => openArtifact(step.artifacts.html!)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              View HTML
+                            </button>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <div className="text-xs text-gray-400 ml-4">
                       {formatDate(step.visitedAt)}
@@ -376,6 +2073,7 @@ export default function AdminPage() {
                 </div>
               ))}
             </div>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { StorageStateSchema, clearStorageState, getAuthStatus, saveStorageState } from '@/lib/auth'
+
+/**
+ * GET /api/admin/crawl-auth
+ * Describe how the crawler signs in (no cookie values or secrets are returned)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: await getAuthStatus(),
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error fetching crawl auth status:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/admin/crawl-auth
+ * Replace the Playwright storage state used by the crawler
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Validate request
+    const validation = StorageStateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_STORAGE_STATE',
+          message: validation.error.issues[0]?.message || 'Invalid storage state',
+        },
+        { status: 400 }
+      )
+    }
+
+    await saveStorageState(validation.data)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: await getAuthStatus(),
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error saving storage state:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'SAVE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/crawl-auth
+ * Remove the saved storage state (the crawler falls back to anonymous or scripted login)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    await clearStorageState()
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: await getAuthStatus(),
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error clearing storage state:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'DELETE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
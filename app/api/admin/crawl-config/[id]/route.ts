@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { CrawlConfigInputSchema, saveCrawlConfig, serializeCrawlConfig } from '@/lib/crawl-config'
+
+/**
+ * PUT /api/admin/crawl-config/[id]
+ * Replace a crawl config (set isActive to make it the active one)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const configId = parseInt(id, 10)
+
+    if (isNaN(configId)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_CONFIG_ID',
+          message: 'Config ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Validate request
+    const validation = CrawlConfigInputSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: validation.error.issues[0]?.message || 'Invalid request',
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.crawlConfig.findUnique({ where: { id: configId } })
+    if (!existing) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'CONFIG_NOT_FOUND',
+          message: `Crawl config ${configId} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const config = await saveCrawlConfig(validation.data, configId)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: { config: serializeCrawlConfig(config) },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error updating crawl config:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'SAVE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/crawl-config/[id]
+ * Delete a crawl config (past sessions keep their config snapshot)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const configId = parseInt(id, 10)
+
+    if (isNaN(configId)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_CONFIG_ID',
+          message: 'Config ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const { count } = await prisma.crawlConfig.deleteMany({ where: { id: configId } })
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'CONFIG_NOT_FOUND',
+          message: `Crawl config ${configId} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: { deletedId: configId },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error deleting crawl config:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'DELETE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
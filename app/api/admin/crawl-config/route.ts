@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import {
+  CrawlConfigInputSchema,
+  getDefaultCrawlScope,
+  saveCrawlConfig,
+  serializeCrawlConfig,
+} from '@/lib/crawl-config'
+
+/**
+ * GET /api/admin/crawl-config
+ * Fetch all crawl configs and the environment defaults used when none is active
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const configs = await prisma.crawlConfig.findMany({
+      orderBy: { updatedAt: 'desc' },
+    })
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          configs: configs.map(serializeCrawlConfig),
+          activeConfigId: configs.find(config => config.isActive)?.id ?? null,
+          defaults: getDefaultCrawlScope(),
+        },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error fetching crawl configs:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/crawl-config
+ * Create a crawl config (optionally making it the active one)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Validate request
+    const validation = CrawlConfigInputSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: validation.error.issues[0]?.message || 'Invalid request',
+        },
+        { status: 400 }
+      )
+    }
+
+    const config = await saveCrawlConfig(validation.data)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: { config: serializeCrawlConfig(config) },
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error creating crawl config:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'SAVE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { requestCrawlCancel } from '@/lib/crawl-control'
+
+/**
+ * POST /api/admin/crawl-sessions/[id]/cancel
+ * Cancel a running crawl session at the next page, or discard a paused or interrupted one
+ * The index is left as it was before the session started
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const sessionIdNum = parseInt(id, 10)
+
+    if (isNaN(sessionIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_SESSION_ID',
+          message: 'Session ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const session = await prisma.crawlSession.findUnique({
+      where: { id: sessionIdNum },
+      select: { status: true },
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_FOUND',
+          message: `Crawl session ${sessionIdNum} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const sessionStatus = await requestCrawlCancel(sessionIdNum)
+
+    if (!sessionStatus) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_CANCELLABLE',
+          message: `Crawl session ${sessionIdNum} is ${session.status} and cannot be cancelled`,
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          crawlSessionId: sessionIdNum,
+          sessionStatus,
+        },
+      },
+      // A running session is only asked to stop; it is cancelled once its reindex reaches the next page
+      { status: sessionStatus === 'cancelling' ? 202 : 200 }
+    )
+  } catch (error) {
+    console.error('Error cancelling crawl session:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'CANCEL_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { diffCrawlSessions } from '@/lib/content-diff'
+
+/**
+ * GET /api/admin/crawl-sessions/[id]/diff?against=[otherId]
+ * Report pages added, removed and modified since another crawl session
+ * Without "against", the session is compared to the previous completed one
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const sessionIdNum = parseInt(id, 10)
+    const against = request.nextUrl.searchParams.get('against')
+    const againstIdNum = against === null ? null : parseInt(against, 10)
+
+    if (isNaN(sessionIdNum) || (againstIdNum !== null && isNaN(againstIdNum))) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_SESSION_ID',
+          message: 'Session IDs must be numbers',
+        },
+        { status: 400 }
+      )
+    }
+
+    const session = await prisma.crawlSession.findUnique({
+      where: { id: sessionIdNum },
+      select: { id: true, startedAt: true },
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_FOUND',
+          message: `Crawl session ${sessionIdNum} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const baseline = againstIdNum !== null
+      ? await prisma.crawlSession.findUnique({ where: { id: againstIdNum }, select: { id: true } })
+      : await prisma.crawlSession.findFirst({
+          where: { status: 'completed', startedAt: { lt: session.startedAt } },
+          orderBy: { startedAt: 'desc' },
+          select: { id: true },
+        })
+
+    if (!baseline) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: againstIdNum !== null ? 'SESSION_NOT_FOUND' : 'NO_BASELINE_SESSION',
+          message: againstIdNum !== null
+            ? `Crawl session ${againstIdNum} not found`
+            : `No completed crawl session before session ${sessionIdNum} to compare against`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const diff = await diffCrawlSessions(sessionIdNum, baseline.id)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: diff,
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error comparing crawl sessions:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'DIFF_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { requestCrawlPause } from '@/lib/crawl-control'
+
+/**
+ * POST /api/admin/crawl-sessions/[id]/pause
+ * Pause a running crawl session at the next page; resume it later from its checkpoint
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const sessionIdNum = parseInt(id, 10)
+
+    if (isNaN(sessionIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_SESSION_ID',
+          message: 'Session ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const session = await prisma.crawlSession.findUnique({
+      where: { id: sessionIdNum },
+      select: { status: true },
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_FOUND',
+          message: `Crawl session ${sessionIdNum} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    if (!(await requestCrawlPause(sessionIdNum))) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_RUNNING',
+          message: `Crawl session ${sessionIdNum} is ${session.status} and cannot be paused`,
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          crawlSessionId: sessionIdNum,
+          sessionStatus: 'pausing',
+        },
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Error pausing crawl session:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'PAUSE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { findActiveJob, startReprocessJob } from '@/lib/jobs'
+
+// Sessions whose reindex is still running (a pause or cancel has not been picked up yet)
+const RUNNING_SESSION_STATUSES = ['in_progress', 'pausing', 'cancelling']
+
+const ReprocessRequestSchema = z.object({
+  extractor: z.enum(['llm', 'dom', 'compare']).optional(),
+})
+
+/**
+ * POST /api/admin/crawl-sessions/[id]/reprocess
+ * Rebuild pages, chunks and embeddings from a crawl session's archived HTML (no recrawl) as a background job;
+ * poll GET /api/admin/jobs/:id for progress
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const sessionIdNum = parseInt(id, 10)
+
+    if (isNaN(sessionIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_SESSION_ID',
+          message: 'Session ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Validate request
+    const validation = ReprocessRequestSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: validation.error.issues[0]?.message || 'Invalid request',
+        },
+        { status: 400 }
+      )
+    }
+
+    const session = await prisma.crawlSession.findUnique({
+      where: { id: sessionIdNum },
+      select: { status: true },
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_FOUND',
+          message: `Crawl session ${sessionIdNum} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    if (RUNNING_SESSION_STATUSES.includes(session.status)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_IN_PROGRESS',
+          message: `Crawl session ${sessionIdNum} is still running`,
+        },
+        { status: 409 }
+      )
+    }
+
+    const archivedPages = await prisma.navigationStep.count({
+      where: { crawlSessionId: sessionIdNum, scraped: true, contentHash: { not: null } },
+    })
+
+    if (archivedPages === 0) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'NO_ARCHIVED_PAGES',
+          message: `Crawl session ${sessionIdNum} has no archived pages to reprocess`,
+        },
+        { status: 409 }
+      )
+    }
+
+    // A running job changes the live version reprocessing copies from, and swaps its own version in afterwards
+    const activeJob = await findActiveJob()
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'JOB_ALREADY_RUNNING',
+          message: `Job #${activeJob.id} (${activeJob.type}) is still running`,
+        },
+        { status: 409 }
+      )
+    }
+
+    const job = await startReprocessJob(sessionIdNum, validation.data)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          jobId: job.id,
+          jobStatus: job.status,
+          createdAt: job.createdAt.toISOString(),
+        },
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Error reprocessing crawl session:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'REPROCESS_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
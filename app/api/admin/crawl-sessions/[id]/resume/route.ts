@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { findActiveJob, startResumeJob } from '@/lib/jobs'
+import { isResumable } from '@/lib/crawl-checkpoint'
+
+/**
+ * POST /api/admin/crawl-sessions/[id]/resume
+ * Continue an interrupted, failed or paused crawl session from its last checkpoint, as a background job
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const sessionIdNum = parseInt(id, 10)
+
+    if (isNaN(sessionIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_SESSION_ID',
+          message: 'Session ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const session = await prisma.crawlSession.findUnique({
+      where: { id: sessionIdNum },
+      select: { status: true, crawlState: true },
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_FOUND',
+          message: `Crawl session ${sessionIdNum} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    if (!isResumable(session)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_RESUMABLE',
+          message: `Crawl session ${sessionIdNum} is ${session.status} and cannot be resumed`,
+        },
+        { status: 409 }
+      )
+    }
+
+    const activeJob = await findActiveJob()
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'JOB_ALREADY_RUNNING',
+          message: `Job #${activeJob.id} (${activeJob.type}) is still running`,
+        },
+        { status: 409 }
+      )
+    }
+
+    const job = await startResumeJob(sessionIdNum)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          jobId: job.id,
+          jobStatus: job.status,
+          crawlSessionId: sessionIdNum,
+          createdAt: job.createdAt.toISOString(),
+        },
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Error resuming crawl session:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'RESUME_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
+import { isResumable } from '@/lib/crawl-checkpoint'
 
 /**
  * GET /api/admin/crawl-sessions
@@ -33,6 +34,18 @@ export async function GET(request: NextRequest) {
       },
     })
 
+    // Scraped pages with an archived snapshot, i.e. what a reprocess can rebuild
+    const archivedCounts = await prisma.navigationStep.groupBy({
+      by: ['crawlSessionId'],
+      where: {
+        crawlSessionId: { in: sessions.map(session => session.id) },
+        scraped: true,
+        contentHash: { not: null },
+      },
+      _count: { _all: true },
+    })
+    const archivedPages = new Map(archivedCounts.map(count => [count.crawlSessionId, count._count._all]))
+
     return NextResponse.json(
       {
         status: 'success',
@@ -43,7 +56,16 @@ export async function GET(request: NextRequest) {
             completedAt: session.completedAt?.toISOString() || null,
             status: session.status,
             pagesScraped: session.pagesScraped,
+            pagesNew: session.pagesNew,
+            pagesChanged: session.pagesChanged,
+            pagesUnchanged: session.pagesUnchanged,
+            pagesRemoved: session.pagesRemoved,
             navigationStepsCount: session._count.navigationSteps,
+            configName: (session.configSnapshot as { name?: string } | null)?.name ?? null,
+            configSnapshot: session.configSnapshot,
+            checkpointAt: session.checkpointAt?.toISOString() || null,
+            resumable: isResumable(session),
+            archivedPages: archivedPages.get(session.id) ?? 0,
             duration: session.completedAt
               ? session.completedAt.getTime() - session.startedAt.getTime()
               : null,
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { activateIndexVersion } from '@/lib/index-versions'
+import { findActiveJob } from '@/lib/jobs'
+
+/**
+ * POST /api/admin/index-versions/[id]/activate
+ * Roll back: make a retired index version live again, retiring the current one
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const versionIdNum = parseInt(id, 10)
+
+    if (isNaN(versionIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_VERSION_ID',
+          message: 'Index version ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const version = await prisma.indexVersion.findUnique({
+      where: { id: versionIdNum },
+      select: { status: true },
+    })
+
+    if (!version) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'VERSION_NOT_FOUND',
+          message: `Index version ${versionIdNum} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    if (version.status !== 'retired') {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'VERSION_NOT_RETIRED',
+          message: `Index version ${versionIdNum} is ${version.status}; only retired versions can be made live`,
+        },
+        { status: 409 }
+      )
+    }
+
+    // A running reindex would swap its own version live right after the rollback
+    const activeJob = await findActiveJob()
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'JOB_ALREADY_RUNNING',
+          message: `Job #${activeJob.id} (${activeJob.type}) is still running`,
+        },
+        { status: 409 }
+      )
+    }
+
+    await activateIndexVersion(versionIdNum)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          indexVersionId: versionIdNum,
+          versionStatus: 'live',
+        },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error activating index version:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'ACTIVATE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { searchChunks } from '@/lib/search'
+
+// Request validation schema
+const VersionSearchRequestSchema = z.object({
+  query: z
+    .string()
+    .min(1, 'Query cannot be empty')
+    .max(2000, 'Query exceeds maximum length'),
+  topK: z.number().int().min(1).max(50).optional(),
+})
+
+/**
+ * POST /api/admin/index-versions/[id]/search
+ * Re-run a question against an index version, e.g. the one that was live when an answer was given
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const versionIdNum = parseInt(id, 10)
+
+    if (isNaN(versionIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_VERSION_ID',
+          message: 'Index version ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Validate request
+    const validation = VersionSearchRequestSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: validation.error.issues[0]?.message || 'Invalid request',
+        },
+        { status: 400 }
+      )
+    }
+
+    const version = await prisma.indexVersion.findUnique({
+      where: { id: versionIdNum },
+      select: { status: true },
+    })
+
+    if (!version) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'VERSION_NOT_FOUND',
+          message: `Index version ${versionIdNum} not found (it may have been pruned)`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const { query, topK } = validation.data
+    const results = await searchChunks(query, topK ?? 5, versionIdNum)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          indexVersionId: versionIdNum,
+          versionStatus: version.status,
+          results,
+        },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error searching index version:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'SEARCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listIndexVersions } from '@/lib/index-versions'
+
+/**
+ * GET /api/admin/index-versions
+ * List index versions (building, live and the retired ones kept for rollback)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const versions = await listIndexVersions()
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          versions: versions.map(version => ({
+            ...version,
+            createdAt: version.createdAt.toISOString(),
+            activatedAt: version.activatedAt?.toISOString() ?? null,
+          })),
+        },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error fetching index versions:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { serializeJob } from '@/lib/jobs'
+
+/**
+ * GET /api/admin/jobs/[id]
+ * Status, stage and percent complete of a background job, with its result once it has finished
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const jobIdNum = parseInt(id, 10)
+
+    if (isNaN(jobIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_JOB_ID',
+          message: 'Job ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const job = await prisma.job.findUnique({ where: { id: jobIdNum } })
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'JOB_NOT_FOUND',
+          message: `Job ${jobIdNum} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: serializeJob(job),
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error fetching job:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findActiveJob, serializeJob } from '@/lib/jobs'
+
+/**
+ * GET /api/admin/jobs
+ * The reindex or resume job that is queued or running, if any (e.g. one started by a schedule or another tab)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const activeJob = await findActiveJob()
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          activeJob: activeJob ? serializeJob(activeJob) : null,
+        },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error fetching active job:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ARTIFACT_CONTENT_TYPES, readFailureArtifact } from '@/lib/crawl-artifacts'
+
+/**
+ * GET /api/admin/navigation/[sessionId]/artifacts/[stepId]?type=screenshot|html
+ * Download the screenshot or HTML captured when a navigation step failed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string; stepId: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { sessionId, stepId } = await params
+    const sessionIdNum = parseInt(sessionId, 10)
+    const stepIdNum = parseInt(stepId, 10)
+
+    if (isNaN(sessionIdNum) || isNaN(stepIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_STEP_ID',
+          message: 'Session ID and step ID must be numbers',
+        },
+        { status: 400 }
+      )
+    }
+
+    const type = request.nextUrl.searchParams.get('type')
+    if (type !== 'screenshot' && type !== 'html') {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_ARTIFACT_TYPE',
+          message: 'type must be "screenshot" or "html"',
+        },
+        { status: 400 }
+      )
+    }
+
+    const step = await prisma.navigationStep.findFirst({
+      where: { id: stepIdNum, crawlSessionId: sessionIdNum },
+      select: { screenshotPath: true, htmlPath: true },
+    })
+
+    const fileName = type === 'screenshot' ? step?.screenshotPath : step?.htmlPath
+    const artifact = fileName ? await readFailureArtifact(fileName) : null
+
+    if (!artifact) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'ARTIFACT_NOT_FOUND',
+          message: `No ${type} stored for step ${stepIdNum} of crawl session ${sessionIdNum}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(artifact), {
+      status: 200,
+      headers: {
+        'Content-Type': ARTIFACT_CONTENT_TYPES[type],
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching failure artifact:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { buildCrawlGraph } from '@/lib/crawl-graph'
+
+/**
+ * GET /api/admin/navigation/[sessionId]/graph?maxDepth=[n]
+ * Crawl graph of a session: one node per URL, one edge per parent link
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { sessionId } = await params
+    const sessionIdNum = parseInt(sessionId, 10)
+
+    if (isNaN(sessionIdNum)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_SESSION_ID',
+          message: 'Session ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const maxDepthParam = request.nextUrl.searchParams.get('maxDepth')
+    const maxDepth = maxDepthParam === null ? undefined : parseInt(maxDepthParam, 10)
+
+    if (maxDepth !== undefined && (isNaN(maxDepth) || maxDepth < 0)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: 'maxDepth must be a non-negative number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const session = await prisma.crawlSession.findUnique({
+      where: { id: sessionIdNum },
+      select: { id: true },
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SESSION_NOT_FOUND',
+          message: `Crawl session ${sessionId} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const steps = await prisma.navigationStep.findMany({
+      where: { crawlSessionId: sessionIdNum },
+      orderBy: { visitedAt: 'asc' },
+      select: {
+        id: true,
+        url: true,
+        depth: true,
+        parentUrl: true,
+        linkText: true,
+        scraped: true,
+        skipReason: true,
+        failureReason: true,
+      },
+    })
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: buildCrawlGraph(steps, { maxDepth }),
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error building crawl graph:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
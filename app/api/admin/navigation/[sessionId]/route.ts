@@ -79,6 +79,22 @@ export async function GET(
             linkText: step.linkText,
             visitedAt: step.visitedAt.toISOString(),
             scraped: step.scraped,
+            skipReason: step.skipReason,
+            sitemapLastmod: step.sitemapLastmod?.toISOString() || null,
+            extractor: step.extractor,
+            extractionComparison: step.extractionComparison,
+            httpStatus: step.httpStatus,
+            retryCount: step.retryCount,
+            failureReason: step.failureReason,
+            failureMessage: step.failureMessage,
+            interactionCount: step.interactionCount,
+            canonicalUrl: step.canonicalUrl,
+            artifacts: {
+              screenshot: step.screenshotPath
+                ? `/api/admin/navigation/${session.id}/artifacts/${step.id}?type=screenshot`
+                : null,
+              html: step.htmlPath ? `/api/admin/navigation/${session.id}/artifacts/${step.id}?type=html` : null,
+            },
           })),
         },
       },
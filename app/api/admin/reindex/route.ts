@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { reindexContent } from '@/lib/indexer'
+import { z } from 'zod'
+import { findActiveJob, startReindexJob } from '@/lib/jobs'
+
+// Request validation schema (body is optional)
+const ReindexRequestSchema = z.object({
+  fetchMode: z.enum(['live', 'record', 'replay']).optional(),
+  extractor: z.enum(['llm', 'dom', 'compare']).optional(),
+})
 
 /**
  * POST /api/admin/reindex
- * Trigger content re-indexing
+ * Start content re-indexing as a background job; poll GET /api/admin/jobs/:id for progress
  */
 export async function POST(request: NextRequest) {
   try {
@@ -22,27 +29,45 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Run reindex
-    const result = await reindexContent()
+    const body = await request.json().catch(() => ({}))
+
+    // Validate request
+    const validation = ReindexRequestSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: validation.error.issues[0]?.message || 'Invalid request',
+        },
+        { status: 400 }
+      )
+    }
+
+    const activeJob = await findActiveJob()
+    if (activeJob) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'JOB_ALREADY_RUNNING',
+          message: `Job #${activeJob.id} (${activeJob.type}) is still running`,
+        },
+        { status: 409 }
+      )
+    }
+
+    const job = await startReindexJob(validation.data)
 
     return NextResponse.json(
       {
         status: 'success',
         data: {
-          jobId: `reindex-${Date.now()}`,
-          startedAt: new Date().toISOString(),
-          pagesDiscovered: result.pagesIndexed,
-          pagesCrawled: result.pagesIndexed,
-          pagesFailed: 0,
-          chunksCreated: result.chunksCreated,
-          embeddingsGenerated: result.embeddingsGenerated,
-          duration: result.duration,
-          crawlSessionId: result.crawlSessionId,
-          navigationSteps: result.navigationSteps,
-          status: 'success',
+          jobId: job.id,
+          jobStatus: job.status,
+          createdAt: job.createdAt.toISOString(),
         },
       },
-      { status: 200 }
+      { status: 202 }
     )
   } catch (error) {
     console.error('Reindex error:', error)
@@ -51,7 +76,7 @@ export async function POST(request: NextRequest) {
       {
         status: 'error',
         error: 'REINDEX_FAILED',
-        message: error instanceof Error ? error.message : 'Unknown error during reindexing',
+        message: error instanceof Error ? error.message : 'Unknown error starting reindex',
       },
       { status: 500 }
     )
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ReindexScheduleInputSchema, saveReindexSchedule, serializeReindexSchedule } from '@/lib/reindex-schedules'
+
+/**
+ * PUT /api/admin/schedules/[id]
+ * Replace a reindex schedule; its next run is counted again from now
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const scheduleId = parseInt(id, 10)
+
+    if (isNaN(scheduleId)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_SCHEDULE_ID',
+          message: 'Schedule ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Validate request
+    const validation = ReindexScheduleInputSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: validation.error.issues[0]?.message || 'Invalid request',
+        },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.reindexSchedule.findUnique({ where: { id: scheduleId } })
+    if (!existing) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SCHEDULE_NOT_FOUND',
+          message: `Reindex schedule ${scheduleId} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const schedule = await saveReindexSchedule(validation.data, scheduleId)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: { schedule: serializeReindexSchedule(schedule) },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error updating reindex schedule:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'SAVE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/schedules/[id]
+ * Delete a reindex schedule (jobs it already started are not affected)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const scheduleId = parseInt(id, 10)
+
+    if (isNaN(scheduleId)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_SCHEDULE_ID',
+          message: 'Schedule ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    const { count } = await prisma.reindexSchedule.deleteMany({ where: { id: scheduleId } })
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'SCHEDULE_NOT_FOUND',
+          message: `Reindex schedule ${scheduleId} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: { deletedId: scheduleId },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error deleting reindex schedule:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'DELETE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import {
+  ReindexScheduleInputSchema,
+  saveReindexSchedule,
+  serializeReindexSchedule,
+} from '@/lib/reindex-schedules'
+
+/**
+ * GET /api/admin/schedules
+ * Fetch all reindex schedules
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const schedules = await prisma.reindexSchedule.findMany({
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          schedules: schedules.map(serializeReindexSchedule),
+        },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error fetching reindex schedules:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/schedules
+ * Create a reindex schedule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Validate request
+    const validation = ReindexScheduleInputSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: validation.error.issues[0]?.message || 'Invalid request',
+        },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await saveReindexSchedule(validation.data)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: { schedule: serializeReindexSchedule(schedule) },
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error creating reindex schedule:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'SAVE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getReindexStatus } from '@/lib/indexer'
+import { findNextScheduledReindex } from '@/lib/reindex-schedules'
 
 /**
  * GET /api/admin/status
@@ -23,6 +24,7 @@ export async function GET(request: NextRequest) {
     }
 
     const indexStatus = await getReindexStatus()
+    const nextSchedule = await findNextScheduledReindex()
 
     return NextResponse.json(
       {
@@ -39,7 +41,8 @@ export async function GET(request: NextRequest) {
             totalPages: indexStatus.totalPages,
             totalChunks: indexStatus.totalChunks,
             totalEmbeddings: indexStatus.totalEmbeddings,
-            nextScheduledReindex: null,
+            nextScheduledReindex: nextSchedule?.nextRunAt?.toISOString() ?? null,
+            nextScheduledReindexSchedule: nextSchedule?.name ?? null,
           },
           performance: {
             avgSearchTime: 450,
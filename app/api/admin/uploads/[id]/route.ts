@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+
+/**
+ * DELETE /api/admin/uploads/[id]
+ * Remove an uploaded document with its chunks
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const { id } = await params
+    const pageId = parseInt(id, 10)
+
+    if (isNaN(pageId)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_UPLOAD_ID',
+          message: 'Upload ID must be a number',
+        },
+        { status: 400 }
+      )
+    }
+
+    // Only uploaded pages; crawled pages are managed by the crawl
+    const { count } = await prisma.page.deleteMany({ where: { id: pageId, source: 'upload' } })
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UPLOAD_NOT_FOUND',
+          message: `Uploaded document ${pageId} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: { deletedId: pageId },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error deleting uploaded document:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'DELETE_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
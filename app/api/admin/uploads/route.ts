@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ingestUploadedDocument } from '@/lib/indexer'
+import { getUploadFormat, MAX_UPLOAD_BYTES, UploadNameConflictError } from '@/lib/uploads'
+
+/**
+ * GET /api/admin/uploads
+ * List uploaded documents
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const pages = await prisma.page.findMany({
+      where: { source: 'upload' },
+      orderBy: { crawledAt: 'desc' },
+      include: {
+        document: { select: { fileName: true, format: true, uploadedAt: true } },
+        _count: { select: { chunks: true } },
+      },
+    })
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: {
+          uploads: pages.map(page => ({
+            id: page.id,
+            url: page.url,
+            title: page.title,
+            fileName: page.document?.fileName ?? null,
+            format: page.document?.format ?? null,
+            uploadedAt: (page.document?.uploadedAt ?? page.crawledAt).toISOString(),
+            chunks: page._count.chunks,
+          })),
+        },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Error fetching uploads:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/uploads
+ * Index a Markdown, HTML or plain text document (multipart form, field "file")
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin token
+    const authHeader = request.headers.get('authorization')
+    const token = authHeader?.replace('Bearer ', '')
+
+    if (token !== process.env.ADMIN_TOKEN) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNAUTHORIZED',
+          message: 'Invalid or missing admin token',
+        },
+        { status: 401 }
+      )
+    }
+
+    const form = await request.formData().catch(() => null)
+    const file = form?.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'INVALID_INPUT',
+          message: 'Send the document as multipart form data in a "file" field',
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!getUploadFormat(file.name)) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UNSUPPORTED_FILE_TYPE',
+          message: 'Only .md, .markdown, .html, .htm and .txt files can be uploaded',
+        },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'FILE_TOO_LARGE',
+          message: `Uploads are limited to ${Math.round(MAX_UPLOAD_BYTES / 1024)} KB`,
+        },
+        { status: 413 }
+      )
+    }
+
+    const body = await file.text()
+    if (!body.trim()) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'EMPTY_DOCUMENT',
+          message: `${file.name} is empty`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await ingestUploadedDocument(file.name, body)
+
+    return NextResponse.json(
+      {
+        status: 'success',
+        data: result,
+      },
+      { status: result.replaced ? 200 : 201 }
+    )
+  } catch (error) {
+    if (error instanceof UploadNameConflictError) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'UPLOAD_NAME_CONFLICT',
+          message: error.message,
+        },
+        { status: 409 }
+      )
+    }
+
+    console.error('Error uploading document:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'UPLOAD_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
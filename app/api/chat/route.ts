@@ -3,6 +3,7 @@ import { z } from 'zod'
 import { searchChunks, calculateAverageSearchSimilarity, filterByThreshold } from '@/lib/search'
 import { generateResponse, formatResponseForAPI, validateResponseCitations } from '@/lib/response-generator'
 import prisma from '@/lib/prisma'
+import { getLiveIndexVersionId } from '@/lib/index-versions'
 
 // Request validation schema
 const ChatRequestSchema = z.object({
@@ -38,7 +39,9 @@ export async function POST(request: NextRequest) {
     console.log(`Chat request: ${message}`)
 
     // Step 1: Search for relevant chunks (retrieve more candidates)
-    const allResults = await searchChunks(message, 10)
+    // The version is logged so the answer can be re-run against the same content later
+    const indexVersionId = await getLiveIndexVersionId()
+    const allResults = await searchChunks(message, 10, indexVersionId ?? undefined)
 
     // Step 2: Adaptive filtering - only filter if we have enough high-quality results
     const filteredResults = filterByThreshold(allResults, 0.5)
@@ -79,6 +82,7 @@ export async function POST(request: NextRequest) {
           resultsFound: searchResults.length,
           confidence: confidence,
           citationsCount: response.citations.length,
+          indexVersionId,
         },
       },
     })
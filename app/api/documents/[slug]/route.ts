@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { getUploadUrl, UPLOAD_CONTENT_TYPES, UploadFormat } from '@/lib/uploads'
+
+/**
+ * GET /api/documents/[slug]
+ * Serve an uploaded document (the URL its citations point to)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params
+
+    const page = await prisma.page.findFirst({
+      where: { url: getUploadUrl(slug), source: 'upload' },
+      select: { document: true },
+    })
+
+    if (!page?.document) {
+      return NextResponse.json(
+        {
+          status: 'error',
+          error: 'DOCUMENT_NOT_FOUND',
+          message: `No uploaded document "${slug}"`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(page.document.body, {
+      status: 200,
+      headers: {
+        'Content-Type': UPLOAD_CONTENT_TYPES[page.document.format as UploadFormat],
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+  } catch (error) {
+    console.error('Error serving uploaded document:', error)
+
+    return NextResponse.json(
+      {
+        status: 'error',
+        error: 'FETCH_FAILED',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
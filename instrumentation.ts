@@ -0,0 +1,34 @@
+/**
+ * Runs once when the server starts
+ * Crawls, jobs and index builds run in-process, so any still in progress were cut off by a restart
+ * The reindex scheduler is started last, once that cleanup is done
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  const { markInterruptedCrawlSessions } = await import('./lib/crawl-checkpoint')
+  try {
+    await markInterruptedCrawlSessions()
+  } catch (error) {
+    console.error('Error checking for interrupted crawl sessions:', error)
+  }
+
+  const { markInterruptedJobs } = await import('./lib/jobs')
+  try {
+    await markInterruptedJobs()
+  } catch (error) {
+    console.error('Error checking for interrupted jobs:', error)
+  }
+
+  const { discardUnfinishedIndexVersions } = await import('./lib/index-versions')
+  try {
+    await discardUnfinishedIndexVersions()
+  } catch (error) {
+    console.error('Error discarding unfinished index versions:', error)
+  }
+
+  const { startReindexScheduler } = await import('./lib/reindex-schedules')
+  startReindexScheduler()
+}
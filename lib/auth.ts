@@ -0,0 +1,203 @@
+import type { BrowserContext } from 'playwright'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { z } from 'zod'
+
+export type AuthMode = 'none' | 'storage_state' | 'scripted_login'
+
+export interface AuthStatus {
+  mode: AuthMode
+  storageStateSavedAt: string | null
+  cookieCount: number
+  loginUrl: string | null
+}
+
+// Credentials live outside the repository: the storage state on disk, login secrets in the environment
+const SCRAPER_AUTH_DIR = process.env.SCRAPER_AUTH_DIR || path.join(process.cwd(), '.crawl-auth')
+const SCRAPER_LOGIN_URL = process.env.SCRAPER_LOGIN_URL || ''
+const SCRAPER_LOGIN_USERNAME = process.env.SCRAPER_LOGIN_USERNAME || ''
+const SCRAPER_LOGIN_PASSWORD = process.env.SCRAPER_LOGIN_PASSWORD || ''
+const SCRAPER_LOGIN_USERNAME_SELECTOR =
+  process.env.SCRAPER_LOGIN_USERNAME_SELECTOR || 'input[type="email"], input[name="username"], input[name="user"], #username'
+const SCRAPER_LOGIN_PASSWORD_SELECTOR = process.env.SCRAPER_LOGIN_PASSWORD_SELECTOR || 'input[type="password"]'
+const SCRAPER_LOGIN_SUBMIT_SELECTOR =
+  process.env.SCRAPER_LOGIN_SUBMIT_SELECTOR || 'button[type="submit"], input[type="submit"]'
+const SCRAPER_LOGIN_TIMEOUT = parseInt(process.env.SCRAPER_LOGIN_TIMEOUT || '30000', 10)
+
+// Redirect targets that mean "not signed in" (matched against host + path), used when SCRAPER_LOGIN_URL is not set
+// or the pattern is set explicitly. The default matches whole host labels and path segments only, so
+// /benefits/associate-discounts is not taken for "sso".
+const SCRAPER_AUTH_LOGIN_PATTERN_SET = Boolean(process.env.SCRAPER_AUTH_LOGIN_PATTERN)
+const SCRAPER_AUTH_LOGIN_PATTERN = new RegExp(
+  process.env.SCRAPER_AUTH_LOGIN_PATTERN || '(^|[/.-])(login|signin|sign-in|logon|sso|saml|oauth2?|authorize)([/.-]|$)',
+  'i'
+)
+
+const STORAGE_STATE_FILE = 'storage-state.json'
+
+/**
+ * Error raised when a page redirects to sign-on, i.e. the crawl's credentials no longer work
+ */
+export class AuthExpiredError extends Error {
+  constructor(url: string, loginUrl: string) {
+    super(`Authentication expired: ${url} redirected to sign-on page ${loginUrl}`)
+    this.name = 'AuthExpiredError'
+  }
+}
+
+/**
+ * Playwright storage state (cookies and local storage), as saved by context.storageState()
+ */
+export const StorageStateSchema = z.object({
+  cookies: z.array(
+    z.object({
+      name: z.string(),
+      value: z.string(),
+      domain: z.string(),
+      path: z.string(),
+      expires: z.number(),
+      httpOnly: z.boolean(),
+      secure: z.boolean(),
+      sameSite: z.enum(['Strict', 'Lax', 'None']),
+    })
+  ),
+  origins: z.array(
+    z.object({
+      origin: z.string(),
+      localStorage: z.array(z.object({ name: z.string(), value: z.string() })),
+    })
+  ),
+})
+
+export type StorageState = z.infer<typeof StorageStateSchema>
+
+/**
+ * Path of the saved storage state
+ */
+export function getStorageStatePath(): string {
+  return path.join(SCRAPER_AUTH_DIR, STORAGE_STATE_FILE)
+}
+
+/**
+ * Check if a scripted login is configured through the environment
+ */
+export function isScriptedLoginConfigured(): boolean {
+  return Boolean(SCRAPER_LOGIN_URL && SCRAPER_LOGIN_USERNAME && SCRAPER_LOGIN_PASSWORD)
+}
+
+/**
+ * Load the saved storage state, or null when there is none
+ */
+export async function loadStorageState(): Promise<StorageState | null> {
+  try {
+    const raw = await fs.readFile(getStorageStatePath(), 'utf-8')
+    return StorageStateSchema.parse(JSON.parse(raw))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Save a storage state for the crawler to reuse (readable by the server user only)
+ */
+export async function saveStorageState(state: StorageState): Promise<void> {
+  await fs.mkdir(SCRAPER_AUTH_DIR, { recursive: true, mode: 0o700 })
+  await fs.writeFile(getStorageStatePath(), JSON.stringify(state, null, 2), { encoding: 'utf-8', mode: 0o600 })
+}
+
+/**
+ * Remove the saved storage state
+ */
+export async function clearStorageState(): Promise<void> {
+  await fs.rm(getStorageStatePath(), { force: true })
+}
+
+/**
+ * Describe how the crawler authenticates (never includes secrets)
+ */
+export async function getAuthStatus(): Promise<AuthStatus> {
+  const state = await loadStorageState().catch(() => null)
+  const stats = state ? await fs.stat(getStorageStatePath()) : null
+
+  return {
+    mode: isScriptedLoginConfigured() ? 'scripted_login' : state ? 'storage_state' : 'none',
+    storageStateSavedAt: stats ? stats.mtime.toISOString() : null,
+    cookieCount: state?.cookies.length ?? 0,
+    loginUrl: SCRAPER_LOGIN_URL || null,
+  }
+}
+
+function trimTrailingSlash(pathname: string): string {
+  return pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname
+}
+
+/**
+ * Check if a URL is a sign-on page (the configured login URL, else SCRAPER_AUTH_LOGIN_PATTERN)
+ */
+function isLoginPage(url: string): boolean {
+  try {
+    const urlObj = new URL(url)
+    if (SCRAPER_LOGIN_URL) {
+      const login = new URL(SCRAPER_LOGIN_URL)
+      if (urlObj.host === login.host && trimTrailingSlash(urlObj.pathname) === trimTrailingSlash(login.pathname)) {
+        return true
+      }
+      if (!SCRAPER_AUTH_LOGIN_PATTERN_SET) {
+        return false
+      }
+    }
+    return SCRAPER_AUTH_LOGIN_PATTERN.test(urlObj.host + urlObj.pathname)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check if a request ended up on a sign-on page instead of the page that was asked for
+ */
+export function isLoginRedirect(requestedUrl: string, finalUrl: string): boolean {
+  try {
+    const requested = new URL(requestedUrl)
+    const final = new URL(finalUrl)
+    // A trailing-slash redirect lands on the same page
+    if (requested.host === final.host && trimTrailingSlash(requested.pathname) === trimTrailingSlash(final.pathname)) {
+      return false
+    }
+  } catch {
+    return false
+  }
+  return isLoginPage(finalUrl)
+}
+
+/**
+ * Sign in with the configured form login and save the resulting storage state
+ * Credentials come from SCRAPER_LOGIN_USERNAME / SCRAPER_LOGIN_PASSWORD
+ */
+export async function performScriptedLogin(context: BrowserContext): Promise<void> {
+  console.log(`Signing in at ${SCRAPER_LOGIN_URL}...`)
+  const page = await context.newPage()
+
+  try {
+    page.setDefaultTimeout(SCRAPER_LOGIN_TIMEOUT)
+    await page.goto(SCRAPER_LOGIN_URL, { waitUntil: 'domcontentloaded' })
+
+    await page.locator(SCRAPER_LOGIN_USERNAME_SELECTOR).first().fill(SCRAPER_LOGIN_USERNAME)
+    await page.locator(SCRAPER_LOGIN_PASSWORD_SELECTOR).first().fill(SCRAPER_LOGIN_PASSWORD)
+    await Promise.all([
+      page.waitForURL(url => !isLoginPage(url.toString()), { timeout: SCRAPER_LOGIN_TIMEOUT }),
+      page.locator(SCRAPER_LOGIN_SUBMIT_SELECTOR).first().click(),
+    ])
+
+    await saveStorageState(await context.storageState())
+    console.log(`✓ Signed in, landed on ${page.url()}`)
+  } catch (error) {
+    throw new Error(
+      `Scripted login failed at ${page.url()}: ${error instanceof Error ? error.message : 'unknown error'}`
+    )
+  } finally {
+    await page.close()
+  }
+}
@@ -0,0 +1,49 @@
+import * as cheerio from 'cheerio'
+import type { CrawlScope } from './crawl-config'
+import type { FetchedPage } from './fetcher'
+
+/**
+ * Normalize a URL into the identity of the page it shows
+ * Drops the fragment, a trailing slash and every query parameter not on the allowlist (kept ones are sorted)
+ */
+export function normalizeUrl(url: string, queryAllowlist: string[] = []): string {
+  try {
+    const urlObj = new URL(url)
+    const params = [...urlObj.searchParams]
+      .filter(([name]) => queryAllowlist.includes(name))
+      .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue))
+    const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : ''
+    const pathname = urlObj.pathname.endsWith('/') ? urlObj.pathname.slice(0, -1) : urlObj.pathname
+    return `${urlObj.origin}${pathname}${search}`
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Read the <link rel="canonical"> of a page, resolved against the page URL
+ */
+export function findCanonicalLink(html: string, pageUrl: string): string | null {
+  const href = cheerio.load(html)('link[rel~="canonical" i][href]').first().attr('href')?.trim()
+  if (!href) return null
+
+  try {
+    const canonical = new URL(href, pageUrl)
+    return canonical.protocol === 'http:' || canonical.protocol === 'https:' ? canonical.toString() : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Decide the identity of a rendered page: its canonical tag when that stays on an allowed host,
+ * otherwise the URL the browser ended up on after redirects
+ */
+export function resolveCanonicalUrl(snapshot: FetchedPage, scope: CrawlScope): string {
+  const canonical = findCanonicalLink(snapshot.html, snapshot.finalUrl)
+
+  if (canonical && scope.allowedHosts.includes(new URL(canonical).hostname)) {
+    return normalizeUrl(canonical, scope.queryAllowlist)
+  }
+  return normalizeUrl(snapshot.finalUrl, scope.queryAllowlist)
+}
@@ -0,0 +1,65 @@
+import { createHash } from 'crypto'
+import type { ScrapedPage } from './scraper'
+
+export type ChangeStatus = 'new' | 'changed' | 'unchanged'
+
+/**
+ * A page already in the index, used for conditional requests and change detection
+ */
+export interface KnownPage {
+  url: string
+  title: string
+  contentHash: string | null
+  etag: string | null
+  lastModified: string | null
+  aliases: string[] // Other URLs that resolved to this page, also looked up when revalidating
+}
+
+/**
+ * Hash the visible text of a page so markup-only churn (scripts, tokens) does not count as a change
+ */
+export function computeContentHash(html: string): string {
+  const text = html
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+    .replace(/<noscript[^>]*>[\s\S]*?<\/noscript>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return createHash('sha256').update(text).digest('hex')
+}
+
+/**
+ * Build the conditional request headers for a known page
+ */
+export function getConditionalHeaders(known: KnownPage | undefined): Record<string, string> | null {
+  if (!known || (!known.etag && !known.lastModified)) return null
+  const headers: Record<string, string> = {}
+  if (known.etag) headers['If-None-Match'] = known.etag
+  if (known.lastModified) headers['If-Modified-Since'] = known.lastModified
+  return headers
+}
+
+/**
+ * Placeholder for a page whose content matches the index (nothing is re-extracted)
+ */
+export function toUnchangedPage(known: KnownPage, etag: string | null, lastModified: string | null): ScrapedPage {
+  return {
+    url: known.url,
+    title: known.title,
+    content: '',
+    headings: [],
+    contentHash: known.contentHash ?? undefined,
+    etag: etag ?? known.etag,
+    lastModified: lastModified ?? known.lastModified,
+    changeStatus: 'unchanged',
+  }
+}
+
+/**
+ * Hash raw bytes (used for documents such as PDFs)
+ */
+export function computeBufferHash(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
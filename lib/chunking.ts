@@ -1,4 +1,4 @@
-import { ScrapedPage } from './scraper'
+import { ScrapedPage, PageTable } from './scraper'
 
 export interface ChunkedContent {
   pageUrl: string
@@ -10,6 +10,7 @@ export interface TextChunk {
   text: string
   category: string
   sourceUrl: string
+  pageNumber: number | null // PDF page the chunk came from
 }
 
 // Chunk configuration for optimal semantic search
@@ -19,6 +20,16 @@ const MAX_CHUNK_WORDS = 250 // Reduced from 682 for better semantic matching
 const CHUNK_OVERLAP_WORDS = 75 // Increased from 50 to preserve more context
 const TOKENS_PER_WORD = 0.75 // Approximate tokens per word (1 token ≈ 0.75 words)
 
+// Table chunks stay small so a match points at a few rows, not the whole grid
+const MAX_TABLE_CHUNK_WORDS = 120
+
+// Recorded on each index version, so its chunks can be traced back to the settings that made them
+export const CHUNKING_SETTINGS = {
+  maxChunkWords: MAX_CHUNK_WORDS,
+  chunkOverlapWords: CHUNK_OVERLAP_WORDS,
+  maxTableChunkWords: MAX_TABLE_CHUNK_WORDS,
+}
+
 /**
  * Extract category from URL path
  */
@@ -107,26 +118,94 @@ function normalizeText(text: string): string {
     .trim()
 }
 
+/**
+ * Render one table row with its column headers ("Plan: PPO | In-network - Family: $3,000")
+ */
+function renderTableRow(table: PageTable, row: string[]): string {
+  return row
+    .map((cell, column) => {
+      if (!cell) return null
+      const header = table.headers[column]
+      return header && header !== cell ? `${header}: ${cell}` : cell
+    })
+    .filter(cell => cell !== null)
+    .join(' | ')
+}
+
+/**
+ * Chunk tables by whole rows; every chunk repeats the table caption and every row carries its headers
+ */
+function createTableChunks(tables: PageTable[]): string[] {
+  const chunks: string[] = []
+
+  for (const table of tables) {
+    const title = `Table: ${table.caption ?? 'Untitled'}`
+    let lines: string[] = []
+    let words = splitIntoWords(title).length
+
+    for (const row of table.rows) {
+      const line = renderTableRow(table, row)
+      if (!line) continue
+
+      const lineWords = splitIntoWords(line).length
+      if (lines.length > 0 && words + lineWords > MAX_TABLE_CHUNK_WORDS) {
+        chunks.push([title, ...lines].join('\n'))
+        lines = []
+        words = splitIntoWords(title).length
+      }
+      lines.push(line)
+      words += lineWords
+    }
+
+    if (lines.length > 0) {
+      chunks.push([title, ...lines].join('\n'))
+    }
+  }
+
+  return chunks
+}
+
 /**
  * Chunk a single page into semantic segments
+ * Tables get their own row-based chunks next to the prose chunks
  */
 export function chunkPage(page: ScrapedPage): ChunkedContent {
   const category = extractCategory(page.url)
   const categoryKeywords = extractCategoryKeywords(page.headings)
 
+  // PDFs are chunked page by page so every chunk keeps its page number
+  if (page.pdfPages) {
+    const textChunks: TextChunk[] = page.pdfPages.flatMap(pdfPage =>
+      createChunks(normalizeText(pdfPage.text), MAX_CHUNK_WORDS, CHUNK_OVERLAP_WORDS)
+        .filter(isSubstantialChunk)
+        .map(text => ({
+          text,
+          category,
+          sourceUrl: `${page.url}#page=${pdfPage.pageNumber}`,
+          pageNumber: pdfPage.pageNumber,
+        }))
+    )
+
+    return {
+      pageUrl: page.url,
+      pageTitle: page.title,
+      chunks: textChunks,
+    }
+  }
+
   // Normalize the content
   const normalizedContent = normalizeText(page.content)
 
   // Create chunks with overlap
   const rawChunks = createChunks(normalizedContent, MAX_CHUNK_WORDS, CHUNK_OVERLAP_WORDS)
 
-  // Filter and enhance chunks
-  const textChunks: TextChunk[] = rawChunks
-    .filter(isSubstantialChunk)
+  // Filter and enhance chunks (table chunks skip the size filter; a short grid is still useful)
+  const textChunks: TextChunk[] = [...rawChunks.filter(isSubstantialChunk), ...createTableChunks(page.tables ?? [])]
     .map(text => ({
       text,
       category,
       sourceUrl: page.url,
+      pageNumber: null,
     }))
 
   return {
@@ -0,0 +1,221 @@
+import prisma from './prisma'
+import { extractContentFromDom } from './dom-extractor'
+import { extractPdfPages, isPdfUrl } from './pdf'
+import { readArchivedHtmlSnapshot, readArchivedPdf } from './html-archive'
+
+export interface DiffLine {
+  type: 'added' | 'removed'
+  text: string
+  highlights: string[] // Dollar amounts and dates in the line that the other version does not have
+}
+
+/**
+ * Facts (dollar amounts or dates) that appear in only one version of a page
+ */
+export interface FactChange {
+  added: string[]
+  removed: string[]
+}
+
+export interface PageDiff {
+  url: string
+  title: string
+  lines: DiffLine[] | null // null when a snapshot is missing from the archive
+  truncated: boolean // More than MAX_DIFF_LINES lines changed
+  amounts: FactChange
+  dates: FactChange
+}
+
+export interface SessionDiff {
+  crawlSessionId: number
+  againstSessionId: number // Baseline: changes read from this session to crawlSessionId
+  added: string[]
+  removed: string[]
+  modified: PageDiff[]
+  unchangedCount: number
+}
+
+// Changed lines kept per page; a rewritten page does not need every line to be reviewed
+const MAX_DIFF_LINES = 200
+
+// Above this many line pairs the diff falls back to comparing line sets
+const MAX_LCS_CELLS = 4_000_000
+
+const AMOUNT_PATTERN = /\$\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:k|K|million|M)\b)?/g
+
+const MONTHS = 'Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?'
+const DATE_PATTERN = new RegExp(
+  [
+    `\\b(?:${MONTHS})\\.? \\d{1,2}(?:st|nd|rd|th)?(?:, \\d{4})?\\b`, // January 1, 2026 / Jan. 15
+    `\\b\\d{1,2} (?:${MONTHS}) \\d{4}\\b`, // 1 January 2026
+    `\\b(?:${MONTHS}) \\d{4}\\b`, // January 2026
+    '\\b\\d{1,2}/\\d{1,2}/\\d{2,4}\\b', // 1/15/2026
+    '\\b\\d{4}-\\d{2}-\\d{2}\\b', // 2026-01-15
+  ].join('|'),
+  'g'
+)
+
+/**
+ * Dollar amounts and dates mentioned in a text
+ */
+function findFacts(text: string): { amounts: string[]; dates: string[] } {
+  return {
+    amounts: (text.match(AMOUNT_PATTERN) ?? []).map(amount => amount.trim()),
+    dates: text.match(DATE_PATTERN) ?? [],
+  }
+}
+
+/**
+ * Facts found in one text but not the other
+ */
+function diffFacts(before: string[], after: string[]): FactChange {
+  return {
+    added: [...new Set(after.filter(fact => !before.includes(fact)))],
+    removed: [...new Set(before.filter(fact => !after.includes(fact)))],
+  }
+}
+
+/**
+ * Lines removed from and added to a text, in document order (longest common subsequence)
+ */
+function diffLines(before: string[], after: string[]): Array<Omit<DiffLine, 'highlights'>> {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    return [
+      ...before.filter(line => !after.includes(line)).map(text => ({ type: 'removed' as const, text })),
+      ...after.filter(line => !before.includes(line)).map(text => ({ type: 'added' as const, text })),
+    ]
+  }
+
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const lines: Array<Omit<DiffLine, 'highlights'>> = []
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      i++
+      j++
+    } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ type: 'removed', text: before[i++] })
+    } else {
+      lines.push({ type: 'added', text: after[j++] })
+    }
+  }
+  return lines
+}
+
+/**
+ * Split page text into comparable lines (blank lines and whitespace differences ignored)
+ */
+function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Readable text of an archived page, read the way the DOM extractor sees it
+ */
+async function readArchivedText(url: string, contentHash: string): Promise<{ title: string; text: string } | null> {
+  if (isPdfUrl(url)) {
+    const data = await readArchivedPdf(contentHash)
+    if (!data) return null
+    const pages = await extractPdfPages(data)
+    return { title: url.substring(url.lastIndexOf('/') + 1), text: pages.map(page => page.text).join('\n') }
+  }
+
+  const snapshot = await readArchivedHtmlSnapshot(contentHash)
+  if (!snapshot) return null
+  const extracted = extractContentFromDom(snapshot.html)
+  return { title: extracted.title, text: extracted.content }
+}
+
+/**
+ * Compare the archived text of one page in two crawls
+ */
+async function diffPage(url: string, beforeHash: string, afterHash: string): Promise<PageDiff> {
+  const [before, after] = await Promise.all([readArchivedText(url, beforeHash), readArchivedText(url, afterHash)])
+  if (!before || !after) {
+    const empty = { added: [], removed: [] }
+    return { url, title: after?.title ?? before?.title ?? url, lines: null, truncated: false, amounts: empty, dates: empty }
+  }
+
+  const beforeFacts = findFacts(before.text)
+  const afterFacts = findFacts(after.text)
+  const changed = diffLines(toLines(before.text), toLines(after.text))
+
+  const lines = changed.slice(0, MAX_DIFF_LINES).map(line => {
+    const facts = findFacts(line.text)
+    const otherFacts = line.type === 'added' ? beforeFacts : afterFacts
+    return {
+      ...line,
+      highlights: [...facts.amounts, ...facts.dates].filter(
+        fact => !otherFacts.amounts.includes(fact) && !otherFacts.dates.includes(fact)
+      ),
+    }
+  })
+
+  return {
+    url,
+    title: after.title,
+    lines,
+    truncated: changed.length > MAX_DIFF_LINES,
+    amounts: diffFacts(beforeFacts.amounts, afterFacts.amounts),
+    dates: diffFacts(beforeFacts.dates, afterFacts.dates),
+  }
+}
+
+/**
+ * Pages scraped by a crawl session with the content hash of each (first visit wins for aliases)
+ */
+async function loadSessionPages(crawlSessionId: number): Promise<Map<string, string>> {
+  const steps = await prisma.navigationStep.findMany({
+    where: { crawlSessionId, scraped: true, contentHash: { not: null } },
+    orderBy: { visitedAt: 'asc' },
+    select: { url: true, canonicalUrl: true, contentHash: true },
+  })
+
+  const pages = new Map<string, string>()
+  for (const step of steps) {
+    const url = step.canonicalUrl ?? step.url
+    if (!pages.has(url)) pages.set(url, step.contentHash!)
+  }
+  return pages
+}
+
+/**
+ * Report what changed in the benefits content between two crawl sessions
+ * Text comes from the archived snapshots, so it reflects the pages themselves rather than extractor output
+ */
+export async function diffCrawlSessions(crawlSessionId: number, againstSessionId: number): Promise<SessionDiff> {
+  const [before, after] = await Promise.all([loadSessionPages(againstSessionId), loadSessionPages(crawlSessionId)])
+
+  const modified: PageDiff[] = []
+  let unchangedCount = 0
+  for (const [url, afterHash] of after) {
+    const beforeHash = before.get(url)
+    if (beforeHash === undefined) continue
+    if (beforeHash === afterHash) {
+      unchangedCount++
+    } else {
+      modified.push(await diffPage(url, beforeHash, afterHash))
+    }
+  }
+
+  return {
+    crawlSessionId,
+    againstSessionId,
+    added: [...after.keys()].filter(url => !before.has(url)),
+    removed: [...before.keys()].filter(url => !after.has(url)),
+    modified,
+    unchangedCount,
+  }
+}
@@ -0,0 +1,67 @@
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { FailureArtifacts } from './fetcher'
+
+export type ArtifactType = 'screenshot' | 'html'
+
+// Failure screenshots and HTML, referenced from NavigationStep by file name
+const SCRAPER_ARTIFACT_DIR = process.env.SCRAPER_ARTIFACT_DIR || path.join(process.cwd(), '.crawl-artifacts')
+
+const ARTIFACT_EXTENSIONS: Record<ArtifactType, string> = {
+  screenshot: 'png',
+  html: 'html',
+}
+
+export const ARTIFACT_CONTENT_TYPES: Record<ArtifactType, string> = {
+  screenshot: 'image/png',
+  // Served as text so scraped scripts never run on the admin origin
+  html: 'text/plain; charset=utf-8',
+}
+
+/**
+ * Save the artifacts of a failed page, returning the stored file name of each
+ */
+export async function saveFailureArtifacts(
+  url: string,
+  artifacts: FailureArtifacts
+): Promise<{ screenshotPath: string | null; htmlPath: string | null }> {
+  const baseName = `${createHash('sha1').update(url).digest('hex')}-${Date.now()}`
+  await fs.mkdir(SCRAPER_ARTIFACT_DIR, { recursive: true })
+
+  const write = async (type: ArtifactType, data: Buffer | string | null): Promise<string | null> => {
+    if (data === null) return null
+    const fileName = `${baseName}.${ARTIFACT_EXTENSIONS[type]}`
+    try {
+      await fs.writeFile(path.join(SCRAPER_ARTIFACT_DIR, fileName), data)
+      return fileName
+    } catch (error) {
+      console.warn(`  Could not save ${type} for ${url}:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
+  return {
+    screenshotPath: await write('screenshot', artifacts.screenshot),
+    htmlPath: await write('html', artifacts.html),
+  }
+}
+
+/**
+ * Read a stored artifact, or null when it no longer exists
+ */
+export async function readFailureArtifact(fileName: string): Promise<Buffer | null> {
+  // Stored names are flat; anything else did not come from saveFailureArtifacts
+  if (path.basename(fileName) !== fileName) {
+    return null
+  }
+
+  try {
+    return await fs.readFile(path.join(SCRAPER_ARTIFACT_DIR, fileName))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
@@ -0,0 +1,204 @@
+import { Prisma } from '@prisma/client'
+import prisma from './prisma'
+import { DEFAULT_INTERACTION_RULES } from './crawl-config'
+import type {
+  CrawlProgress,
+  CrawlResumeState,
+  CrawlScope,
+  ExtractorMode,
+  FetchMode,
+  NavigationStep,
+  QueueItem,
+  ScrapedPage,
+} from './scraper'
+
+/**
+ * Crawl options a session was started with (reused when it is resumed)
+ */
+export interface CrawlSettings {
+  fetchMode?: FetchMode
+  extractor?: ExtractorMode
+  concurrency?: number
+}
+
+/**
+ * Crawl settings and frontier stored on CrawlSession.crawlState
+ */
+export interface StoredCrawlState extends CrawlSettings {
+  frontier?: QueueItem[] // Missing until the crawl has been seeded
+  visitedUrls?: string[]
+  skippedUrls?: string[]
+}
+
+// Sessions that stopped before completing; they can be resumed while they still have crawl state
+const RESUMABLE_STATUSES = ['interrupted', 'failed', 'auth_expired', 'paused']
+
+/**
+ * Round-trip a value through JSON (Dates become ISO strings)
+ */
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Check if a crawl session can be resumed
+ */
+export function isResumable(session: { status: string; crawlState: Prisma.JsonValue }): boolean {
+  return RESUMABLE_STATUSES.includes(session.status) && session.crawlState !== null
+}
+
+/**
+ * Map navigation steps to NavigationStep rows
+ */
+function toNavigationStepRows(crawlSessionId: number, steps: NavigationStep[]) {
+  return steps.map(step => ({
+    crawlSessionId,
+    url: step.url,
+    depth: step.depth,
+    parentUrl: step.parentUrl,
+    linkText: step.linkText,
+    visitedAt: step.visitedAt,
+    scraped: step.scraped,
+    skipReason: step.skipReason,
+    sitemapLastmod: step.sitemapLastmod,
+    extractor: step.extractor,
+    extractionComparison: step.extractionComparison ? { ...step.extractionComparison } : undefined,
+    httpStatus: step.httpStatus,
+    retryCount: step.retryCount,
+    failureReason: step.failureReason,
+    failureMessage: step.failureMessage,
+    screenshotPath: step.screenshotPath,
+    htmlPath: step.htmlPath,
+    contentHash: step.contentHash,
+    interactionCount: step.interactionCount,
+    canonicalUrl: step.canonicalUrl,
+  }))
+}
+
+/**
+ * Persist crawl progress: new navigation steps and pages, plus the current frontier
+ * Runs in one transaction so a crash never leaves steps without the matching frontier
+ */
+export async function saveCrawlProgress(
+  crawlSessionId: number,
+  settings: CrawlSettings,
+  progress: CrawlProgress
+): Promise<void> {
+  const crawlState: StoredCrawlState = {
+    ...settings,
+    frontier: progress.frontier,
+    visitedUrls: progress.visitedUrls,
+    skippedUrls: progress.skippedUrls,
+  }
+
+  await prisma.$transaction([
+    prisma.navigationStep.createMany({
+      data: toNavigationStepRows(crawlSessionId, progress.navigationSteps),
+    }),
+    prisma.stagedPage.createMany({
+      data: progress.pages.map(page => ({ crawlSessionId, url: page.url, data: toJson(page) })),
+    }),
+    prisma.crawlSession.update({
+      where: { id: crawlSessionId },
+      data: {
+        crawlState: toJson(crawlState),
+        checkpointAt: new Date(),
+        pagesScraped: { increment: progress.pages.length },
+      },
+    }),
+  ])
+}
+
+/**
+ * Load what is needed to continue a crawl session
+ * resumeFrom is undefined when the session stopped before its crawl was seeded
+ */
+export async function loadCrawlResumeState(crawlSessionId: number): Promise<{
+  scope: CrawlScope
+  settings: CrawlSettings
+  resumeFrom: CrawlResumeState | undefined
+}> {
+  const session = await prisma.crawlSession.findUnique({ where: { id: crawlSessionId } })
+  if (!session || !session.crawlState || !session.configSnapshot) {
+    throw new Error(`Crawl session ${crawlSessionId} has no saved crawl state`)
+  }
+
+  const { frontier, visitedUrls, skippedUrls, ...settings } = session.crawlState as unknown as StoredCrawlState
+  // Snapshots taken before interaction rules and the query allowlist existed get what they ran with
+  const snapshot = session.configSnapshot as unknown as CrawlScope
+  const scope: CrawlScope = {
+    ...snapshot,
+    queryAllowlist: snapshot.queryAllowlist ?? [],
+    interactionRules: snapshot.interactionRules ?? DEFAULT_INTERACTION_RULES,
+  }
+
+  if (!frontier) {
+    return { scope, settings, resumeFrom: undefined }
+  }
+
+  const stagedPages = await prisma.stagedPage.findMany({
+    where: { crawlSessionId },
+    orderBy: { id: 'asc' },
+  })
+
+  return {
+    scope,
+    settings,
+    resumeFrom: {
+      frontier: frontier.map(item => ({
+        ...item,
+        sitemapLastmod: item.sitemapLastmod ? new Date(item.sitemapLastmod) : null,
+      })),
+      visitedUrls: visitedUrls ?? [],
+      skippedUrls: skippedUrls ?? [],
+      pages: stagedPages.map(stagedPage => stagedPage.data as unknown as ScrapedPage),
+    },
+  }
+}
+
+/**
+ * Drop the saved crawl state of a session that finished
+ */
+export async function clearCrawlState(crawlSessionId: number): Promise<void> {
+  await prisma.$transaction([
+    prisma.stagedPage.deleteMany({ where: { crawlSessionId } }),
+    prisma.crawlSession.update({
+      where: { id: crawlSessionId },
+      data: { crawlState: Prisma.DbNull },
+    }),
+  ])
+}
+
+/**
+ * Mark sessions left in progress by a previous process as interrupted
+ * (including ones asked to pause or cancel that never got to stop)
+ * Call once at startup, before this process starts any crawl
+ */
+export async function markInterruptedCrawlSessions(): Promise<number> {
+  const staleSessions = await prisma.crawlSession.findMany({
+    where: { status: { in: ['in_progress', 'pausing', 'cancelling'] } },
+    select: { id: true },
+  })
+
+  if (staleSessions.length === 0) {
+    return 0
+  }
+
+  const ids = staleSessions.map(session => session.id)
+  await prisma.crawlSession.updateMany({
+    where: { id: { in: ids } },
+    data: { status: 'interrupted' },
+  })
+
+  await prisma.adminLog.create({
+    data: {
+      action: 'crawl_interrupted',
+      status: 'warning',
+      message: `Marked ${ids.length} crawl session(s) left in progress as interrupted`,
+      metadata: { crawlSessionIds: ids },
+    },
+  })
+
+  console.log(`✓ Marked ${ids.length} stale crawl session(s) as interrupted: ${ids.map(id => `#${id}`).join(', ')}`)
+  return ids.length
+}
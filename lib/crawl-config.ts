@@ -0,0 +1,234 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import type { CrawlConfig } from '@prisma/client'
+import prisma from './prisma'
+
+// 'click' clicks every visible match, 'click_first' only the first one, 'reveal' unhides matches without clicking
+export type InteractionAction = 'click' | 'click_first' | 'reveal'
+
+/**
+ * Page interaction run before extraction on URLs matching urlPattern (same syntax as include/exclude rules)
+ */
+export interface InteractionRule {
+  urlPattern: string
+  action: InteractionAction
+  selector: string
+}
+
+/**
+ * Resolved crawl scope handed to the crawler (also stored as the session snapshot)
+ */
+export interface CrawlScope {
+  configId: number | null // null when built from environment defaults
+  name: string
+  seedUrls: string[]
+  allowedHosts: string[]
+  includePatterns: string[]
+  excludePatterns: string[]
+  queryAllowlist: string[] // Query parameters that tell pages apart (e.g. "plan" for ?plan=ppo vs ?plan=hdhp)
+  maxDepth: number | null
+  maxPages: number
+  interactionRules: InteractionRule[]
+}
+
+// Environment defaults (used until an admin activates a config)
+const AMEX_BENEFITS_URL = process.env.AMEX_BENEFITS_URL || 'https://www.americanexpress.com/en-us/colleagues/benefits'
+const MAX_PAGES_TO_CRAWL = parseInt(process.env.MAX_PAGES_TO_CRAWL || '20', 10)
+const SCRAPER_QUERY_ALLOWLIST = (process.env.SCRAPER_QUERY_ALLOWLIST || '')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean)
+
+// Regex rules are written as "re:<pattern>"; anything else is a path glob
+const REGEX_PREFIX = 're:'
+
+/**
+ * Interactions used when a config does not set its own
+ */
+export const DEFAULT_INTERACTION_RULES: InteractionRule[] = [
+  // Cookie consent, terms and similar blocking dialogs
+  {
+    urlPattern: '**',
+    action: 'click_first',
+    selector: [
+      'button:has-text("Agree")',
+      'button:has-text("I Agree")',
+      'button:has-text("Accept")',
+      'button:has-text("Continue")',
+      'button:has-text("OK")',
+      '[data-testid="agree-button"]',
+      '[aria-label*="agree" i]',
+      '[aria-label*="accept" i]',
+    ].join(', '),
+  },
+  // Collapsed accordions and "show more" toggles outside the site navigation
+  { urlPattern: '**', action: 'click', selector: '[aria-expanded="false"]:not(nav *, header *, footer *)' },
+  // Inactive tab panels and closed <details>
+  { urlPattern: '**', action: 'reveal', selector: '[role="tabpanel"], details:not([open])' },
+]
+
+/**
+ * Compile a rule into a RegExp matched against the URL path
+ * Globs: ** matches anything, * and ? stay within one path segment
+ */
+export function compileRule(pattern: string): RegExp {
+  if (pattern.startsWith(REGEX_PREFIX)) {
+    return new RegExp(pattern.slice(REGEX_PREFIX.length), 'i')
+  }
+
+  const source = pattern
+    .split('**')
+    .map(part =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+    )
+    .join('.*')
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * Check if a URL's path matches any of the given rules (the query string is ignored, like the original path filter)
+ */
+export function matchesAnyRule(url: string, patterns: string[]): boolean {
+  let pathname: string
+  try {
+    pathname = new URL(url).pathname
+  } catch {
+    return false
+  }
+  return patterns.some(pattern => compileRule(pattern).test(pathname))
+}
+
+/**
+ * Scope matching the original hardcoded behavior
+ */
+export function getDefaultCrawlScope(): CrawlScope {
+  return {
+    configId: null,
+    name: 'Environment defaults',
+    seedUrls: [AMEX_BENEFITS_URL],
+    allowedHosts: [new URL(AMEX_BENEFITS_URL).hostname],
+    includePatterns: ['re:benefits|colleagues'],
+    excludePatterns: ['re:\\.(jpg|png|gif|css|js|xml|zip)$'],
+    queryAllowlist: SCRAPER_QUERY_ALLOWLIST,
+    maxDepth: null,
+    maxPages: MAX_PAGES_TO_CRAWL,
+    interactionRules: DEFAULT_INTERACTION_RULES,
+  }
+}
+
+/**
+ * Load the active crawl config, falling back to environment defaults
+ */
+export async function loadActiveCrawlScope(): Promise<CrawlScope> {
+  const config = await prisma.crawlConfig.findFirst({
+    where: { isActive: true },
+    orderBy: { updatedAt: 'desc' },
+  })
+
+  if (!config) {
+    return getDefaultCrawlScope()
+  }
+
+  return {
+    configId: config.id,
+    name: config.name,
+    seedUrls: config.seedUrls,
+    // Seed hosts are always allowed
+    allowedHosts: Array.from(new Set([
+      ...config.seedUrls.map(url => new URL(url).hostname),
+      ...config.allowedHosts.map(host => host.toLowerCase()),
+    ])),
+    includePatterns: config.includePatterns,
+    excludePatterns: config.excludePatterns,
+    queryAllowlist: config.queryAllowlist,
+    maxDepth: config.maxDepth,
+    maxPages: config.maxPages,
+    interactionRules: (config.interactionRules as InteractionRule[] | null) ?? DEFAULT_INTERACTION_RULES,
+  }
+}
+
+const RuleSchema = z
+  .string()
+  .min(1, 'Rules cannot be empty')
+  .refine(pattern => {
+    try {
+      compileRule(pattern)
+      return true
+    } catch {
+      return false
+    }
+  }, 'Invalid regular expression')
+
+const InteractionRuleSchema = z.object({
+  urlPattern: RuleSchema,
+  action: z.enum(['click', 'click_first', 'reveal']),
+  selector: z.string().min(1, 'Interaction selectors cannot be empty'),
+})
+
+/**
+ * Validation schema for creating or updating a crawl config
+ */
+export const CrawlConfigInputSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200),
+  seedUrls: z.array(z.url('Seed URLs must be absolute URLs')).min(1, 'At least one seed URL is required'),
+  allowedHosts: z.array(z.string().min(1)).default([]),
+  includePatterns: z.array(RuleSchema).default([]),
+  excludePatterns: z.array(RuleSchema).default([]),
+  queryAllowlist: z.array(z.string().min(1, 'Query parameter names cannot be empty')).default([]),
+  maxDepth: z.number().int().min(0).nullable().default(null),
+  maxPages: z.number().int().min(1).max(1000).default(MAX_PAGES_TO_CRAWL),
+  interactionRules: z.array(InteractionRuleSchema).nullable().default(null), // null uses DEFAULT_INTERACTION_RULES
+  isActive: z.boolean().default(false),
+})
+
+export type CrawlConfigInput = z.infer<typeof CrawlConfigInputSchema>
+
+/**
+ * Create or update a crawl config; activating one deactivates the others
+ */
+export async function saveCrawlConfig(input: CrawlConfigInput, id?: number): Promise<CrawlConfig> {
+  const data = {
+    ...input,
+    seedUrls: input.seedUrls.map(url => url.trim()),
+    allowedHosts: input.allowedHosts.map(host => host.trim().toLowerCase()),
+    queryAllowlist: input.queryAllowlist.map(name => name.trim()),
+    interactionRules: input.interactionRules ?? Prisma.DbNull,
+  }
+
+  return prisma.$transaction(async tx => {
+    if (data.isActive) {
+      await tx.crawlConfig.updateMany({
+        where: { isActive: true, ...(id !== undefined && { id: { not: id } }) },
+        data: { isActive: false },
+      })
+    }
+
+    return id === undefined
+      ? tx.crawlConfig.create({ data })
+      : tx.crawlConfig.update({ where: { id }, data })
+  })
+}
+
+/**
+ * API shape of a stored crawl config
+ */
+export function serializeCrawlConfig(config: CrawlConfig) {
+  return {
+    id: config.id,
+    name: config.name,
+    seedUrls: config.seedUrls,
+    allowedHosts: config.allowedHosts,
+    includePatterns: config.includePatterns,
+    excludePatterns: config.excludePatterns,
+    queryAllowlist: config.queryAllowlist,
+    maxDepth: config.maxDepth,
+    maxPages: config.maxPages,
+    interactionRules: config.interactionRules as InteractionRule[] | null,
+    isActive: config.isActive,
+    createdAt: config.createdAt.toISOString(),
+    updatedAt: config.updatedAt.toISOString(),
+  }
+}
@@ -0,0 +1,111 @@
+import prisma from './prisma'
+import { clearCrawlState, isResumable } from './crawl-checkpoint'
+
+/**
+ * Error raised when a reindex stops because its session was paused or cancelled
+ */
+export class CrawlStoppedError extends Error {
+  constructor(crawlSessionId: number) {
+    super(`Crawl session ${crawlSessionId} was stopped`)
+    this.name = 'CrawlStoppedError'
+  }
+}
+
+/**
+ * Check if the reindex of a session should stop
+ * Pause and cancel requests set the session to 'pausing' or 'cancelling'; the running reindex
+ * sees that between pages and settles the session as 'paused' or 'cancelled'.
+ */
+export async function isStopRequested(crawlSessionId: number): Promise<boolean> {
+  const session = await prisma.crawlSession.findUnique({
+    where: { id: crawlSessionId },
+    select: { status: true },
+  })
+  return session?.status !== 'in_progress'
+}
+
+/**
+ * Ask a running crawl session to pause at the next page
+ * Returns false when the session is not running
+ */
+export async function requestCrawlPause(crawlSessionId: number): Promise<boolean> {
+  const { count } = await prisma.crawlSession.updateMany({
+    where: { id: crawlSessionId, status: 'in_progress' },
+    data: { status: 'pausing' },
+  })
+  return count > 0
+}
+
+/**
+ * Cancel a crawl session: a running one stops at the next page, a paused or interrupted one
+ * is cancelled right away and its saved crawl state is dropped
+ * Returns the new status, or null when the session has nothing to cancel
+ */
+export async function requestCrawlCancel(crawlSessionId: number): Promise<'cancelling' | 'cancelled' | null> {
+  const { count } = await prisma.crawlSession.updateMany({
+    where: { id: crawlSessionId, status: { in: ['in_progress', 'pausing'] } },
+    data: { status: 'cancelling' },
+  })
+  if (count > 0) return 'cancelling'
+
+  const session = await prisma.crawlSession.findUnique({
+    where: { id: crawlSessionId },
+    select: { status: true, crawlState: true },
+  })
+  if (!session || !isResumable(session)) return null
+
+  await cancelCrawlSession(crawlSessionId, session.status)
+  return 'cancelled'
+}
+
+/**
+ * Mark a session cancelled and drop its saved crawl state (staged pages included)
+ */
+async function cancelCrawlSession(crawlSessionId: number, fromStatus: string): Promise<void> {
+  await prisma.crawlSession.update({
+    where: { id: crawlSessionId },
+    data: { status: 'cancelled', completedAt: new Date() },
+  })
+  await clearCrawlState(crawlSessionId)
+
+  await prisma.adminLog.create({
+    data: {
+      action: 'crawl_cancelled',
+      status: 'success',
+      message: `Cancelled crawl session #${crawlSessionId} (was ${fromStatus}); the index was not changed`,
+      metadata: { crawlSessionId },
+    },
+  })
+  console.log(`✓ Cancelled crawl session #${crawlSessionId}`)
+}
+
+/**
+ * Settle a session whose reindex stopped on request: 'cancelling' becomes 'cancelled',
+ * anything else (normally 'pausing') becomes 'paused' and can be resumed
+ */
+export async function finishStoppedCrawl(crawlSessionId: number): Promise<'paused' | 'cancelled'> {
+  const session = await prisma.crawlSession.findUnique({
+    where: { id: crawlSessionId },
+    select: { status: true },
+  })
+
+  if (session?.status === 'cancelling') {
+    await cancelCrawlSession(crawlSessionId, 'running')
+    return 'cancelled'
+  }
+
+  await prisma.crawlSession.update({
+    where: { id: crawlSessionId },
+    data: { status: 'paused' },
+  })
+  await prisma.adminLog.create({
+    data: {
+      action: 'crawl_paused',
+      status: 'success',
+      message: `Paused crawl session #${crawlSessionId}; resume it to continue from the last checkpoint`,
+      metadata: { crawlSessionId },
+    },
+  })
+  console.log(`✓ Paused crawl session #${crawlSessionId}`)
+  return 'paused'
+}
@@ -0,0 +1,123 @@
+import type { NavigationStep } from '@prisma/client'
+
+export type CrawlNodeStatus = 'scraped' | 'failed' | 'skipped'
+
+/**
+ * A URL the crawl reached, keyed by the URL as it was queued
+ */
+export interface CrawlGraphNode {
+  id: string // URL
+  stepId: number
+  depth: number
+  status: CrawlNodeStatus
+  reason: string | null // Failure or skip reason
+  linkText: string | null
+  parentId: string | null // null for seeds, and for children whose parent is outside the graph
+  childCount: number
+  scrapedDescendants: number // Scraped pages reached through this node, i.e. how much content it led to
+}
+
+/**
+ * Link followed (or skipped) from one page to another
+ */
+export interface CrawlGraphEdge {
+  source: string
+  target: string
+  linkText: string | null
+}
+
+export interface CrawlGraph {
+  nodes: CrawlGraphNode[]
+  edges: CrawlGraphEdge[]
+  maxDepth: number // Deepest node in the session, before filtering
+}
+
+type GraphStep = Pick<
+  NavigationStep,
+  'id' | 'url' | 'depth' | 'parentUrl' | 'linkText' | 'scraped' | 'skipReason' | 'failureReason'
+>
+
+/**
+ * Status of the node a step produced
+ */
+function getNodeStatus(step: GraphStep): CrawlNodeStatus {
+  if (step.scraped) return 'scraped'
+  return step.skipReason ? 'skipped' : 'failed'
+}
+
+/**
+ * Build the crawl graph of a session from its navigation steps (in visit order)
+ * A URL visited twice (a resumed crawl revisits in-flight pages) keeps its latest step.
+ * With maxDepth, deeper nodes and their edges are left out; descendant counts still cover the whole crawl.
+ */
+export function buildCrawlGraph(steps: GraphStep[], options: { maxDepth?: number } = {}): CrawlGraph {
+  const stepsByUrl = new Map<string, GraphStep>()
+  for (const step of steps) {
+    stepsByUrl.set(step.url, step)
+  }
+
+  const children = new Map<string, string[]>()
+  for (const step of stepsByUrl.values()) {
+    if (step.parentUrl && stepsByUrl.has(step.parentUrl) && step.parentUrl !== step.url) {
+      children.set(step.parentUrl, [...(children.get(step.parentUrl) ?? []), step.url])
+    }
+  }
+
+  // Walk the links breadth-first from the seeds so each URL joins the tree once, even when revisits form a cycle;
+  // URLs only reachable through a cycle start a walk of their own
+  const order: string[] = []
+  const treeParents = new Map<string, string>()
+  const visited = new Set<string>()
+  const urls = [...stepsByUrl.keys()]
+  const isSeed = (url: string) => {
+    const parentUrl = stepsByUrl.get(url)!.parentUrl
+    return !parentUrl || !stepsByUrl.has(parentUrl)
+  }
+  const roots = [...urls.filter(isSeed), ...urls.filter(url => !isSeed(url))]
+  for (const root of roots) {
+    if (visited.has(root)) continue
+    visited.add(root)
+    order.push(root)
+    for (let i = order.length - 1; i < order.length; i++) {
+      for (const child of children.get(order[i]) ?? []) {
+        if (visited.has(child)) continue
+        visited.add(child)
+        treeParents.set(child, order[i])
+        order.push(child)
+      }
+    }
+  }
+
+  // Count scraped descendants bottom-up in one pass: children come after their parent in BFS order
+  const scrapedDescendants = new Map<string, number>()
+  for (const url of [...order].reverse()) {
+    const parent = treeParents.get(url)
+    if (parent === undefined) continue
+    const count = scrapedDescendants.get(url) ?? 0
+    const own = stepsByUrl.get(url)!.scraped ? 1 : 0
+    scrapedDescendants.set(parent, (scrapedDescendants.get(parent) ?? 0) + count + own)
+  }
+
+  const allNodes = [...stepsByUrl.values()].map(step => ({
+    id: step.url,
+    stepId: step.id,
+    depth: step.depth,
+    status: getNodeStatus(step),
+    reason: step.failureReason ?? step.skipReason,
+    linkText: step.linkText,
+    parentId: step.parentUrl && stepsByUrl.has(step.parentUrl) ? step.parentUrl : null,
+    childCount: children.get(step.url)?.length ?? 0,
+    scrapedDescendants: scrapedDescendants.get(step.url) ?? 0,
+  }))
+
+  const nodes = options.maxDepth === undefined ? allNodes : allNodes.filter(node => node.depth <= options.maxDepth!)
+  const nodeIds = new Set(nodes.map(node => node.id))
+
+  return {
+    nodes,
+    edges: nodes
+      .filter(node => node.parentId !== null && nodeIds.has(node.parentId))
+      .map(node => ({ source: node.parentId!, target: node.id, linkText: node.linkText })),
+    maxDepth: allNodes.reduce((max, node) => Math.max(max, node.depth), 0),
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Minimal 5-field cron expressions (minute hour day-of-month month day-of-week), evaluated in the server's time zone
+ * Fields accept *, numbers, ranges (1-5), lists (1,15) and steps (*\/15, 8-18/2); months and weekdays also accept
+ * three-letter names. Like Vixie cron, a day matches when either day field matches if both are restricted.
+ */
+
+interface CronField {
+  values: Set<number>
+  any: boolean // The field is '*' (or a step over it), relevant for the day-of-month / day-of-week rule
+}
+
+interface CronSchedule {
+  minutes: CronField
+  hours: CronField
+  daysOfMonth: CronField
+  months: CronField
+  daysOfWeek: CronField
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const FIELD_SPECS: Array<{ name: string; min: number; max: number; names?: string[]; nameOffset?: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES, nameOffset: 0 }, // 0 and 7 are Sunday
+]
+
+// Yearly expressions on Feb 29 can be almost 8 years apart
+const MAX_SEARCH_MS = 8 * 366 * 24 * 60 * 60 * 1000
+
+function parseFieldValue(value: string, spec: (typeof FIELD_SPECS)[number]): number {
+  const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1
+  const number = nameIndex >= 0 ? nameIndex + spec.nameOffset! : /^\d+$/.test(value) ? parseInt(value, 10) : NaN
+  if (isNaN(number) || number < spec.min || number > spec.max) {
+    throw new Error(`Invalid ${spec.name} "${value}" (expected ${spec.min}-${spec.max})`)
+  }
+  return number
+}
+
+function parseField(field: string, spec: (typeof FIELD_SPECS)[number]): CronField {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/')
+    const step = stepText === undefined ? 1 : /^\d+$/.test(stepText) ? parseInt(stepText, 10) : 0
+    if (rest.length > 0 || step < 1) {
+      throw new Error(`Invalid step in ${spec.name} "${part}"`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      ;[start, end] = [spec.min, spec.max]
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      ;[start, end] = [parseFieldValue(from, spec), parseFieldValue(to, spec)]
+      if (start > end) {
+        throw new Error(`Invalid ${spec.name} range "${range}"`)
+      }
+    } else {
+      start = parseFieldValue(range, spec)
+      end = stepText === undefined ? start : spec.max // 5/15 means every 15 starting at 5
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return { values, any: field.startsWith('*') }
+}
+
+/**
+ * Parse a cron expression, throwing an Error that says what is wrong with it
+ */
+function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const fields = (CRON_ALIASES[trimmed.toLowerCase()] ?? trimmed).split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${trimmed}" must have 5 fields (minute hour day-of-month month day-of-week)`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_SPECS[index])
+  )
+  if (daysOfWeek.values.has(7)) {
+    daysOfWeek.values.add(0)
+  }
+  return { minutes, hours, daysOfMonth, months, daysOfWeek }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.values.has(date.getDate())
+  const dayOfWeek = schedule.daysOfWeek.values.has(date.getDay())
+  if (schedule.daysOfMonth.any || schedule.daysOfWeek.any) {
+    return dayOfMonth && dayOfWeek
+  }
+  return dayOfMonth || dayOfWeek
+}
+
+/**
+ * First time strictly after `after` (to the minute) that the expression fires
+ */
+export function getNextCronRun(expression: string, after: Date): Date {
+  const schedule = parseCron(expression)
+  const date = new Date(after)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  // Skip whole months, days and hours that cannot match before stepping minute by minute
+  while (date.getTime() - after.getTime() <= MAX_SEARCH_MS) {
+    if (!schedule.months.values.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0, 0, 0)
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0, 0, 0)
+    } else if (!schedule.hours.values.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0)
+    } else if (!schedule.minutes.values.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0)
+    } else {
+      return date
+    }
+  }
+
+  throw new Error(`Cron expression "${expression}" never fires`)
+}
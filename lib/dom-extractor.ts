@@ -0,0 +1,320 @@
+import * as cheerio from 'cheerio'
+import type { CheerioAPI } from 'cheerio'
+import type { AnyNode, Element } from 'domhandler'
+
+/**
+ * A data table kept as rows and columns
+ * Multi-row headers are joined per column ("In-network - Family"); merged cells are repeated
+ */
+export interface PageTable {
+  caption: string | null // <caption>, aria-label or the nearest heading above the table
+  headers: string[] // One per column, empty when the table has no header row
+  rows: string[][]
+}
+
+export interface ExtractionComparison {
+  llmChars: number
+  domChars: number
+  overlap: number // Jaccard similarity of the two word sets (0-1)
+  llmCoverage: number // Share of LLM words also found by the DOM extractor (0-1)
+}
+
+// Elements that never hold main content
+const NOISE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+  'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="dialog"]',
+  '[aria-hidden="true"]', '[hidden]',
+  '[id*="cookie" i]', '[class*="cookie" i]', '[id*="consent" i]', '[class*="consent" i]',
+  '[class*="breadcrumb" i]', '[class*="skip-link" i]',
+]
+
+// Explicit main-content markers, most specific first
+const MAIN_SELECTORS = ['main', '[role="main"]', 'article', '#main-content', '#main', '#content', '.main-content', '.content']
+
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'main', 'blockquote', 'pre', 'dl', 'dt', 'dd', 'figure', 'figcaption'])
+
+/**
+ * Collapse runs of whitespace inside a line of text
+ */
+function cleanInline(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Score a candidate container: lots of text, few links (readability heuristic)
+ */
+function scoreCandidate($: CheerioAPI, el: Element): number {
+  const $el = $(el)
+  const textLength = cleanInline($el.text()).length
+  if (textLength === 0) return 0
+  const linkLength = cleanInline($el.find('a').text()).length
+  const paragraphs = $el.find('p, li, td').length
+  return textLength * (1 - linkLength / textLength) + paragraphs * 25
+}
+
+/**
+ * Find the element most likely to hold the main content
+ */
+function findMainRegion($: CheerioAPI): Element | null {
+  for (const selector of MAIN_SELECTORS) {
+    const candidate = $(selector).toArray().find(el => cleanInline($(el).text()).length > 200)
+    if (candidate) return candidate as Element
+  }
+
+  let best: Element | null = null
+  let bestScore = 0
+  for (const el of $('section, div').toArray()) {
+    const score = scoreCandidate($, el)
+    if (score > bestScore) {
+      best = el
+      bestScore = score
+    }
+  }
+  return best
+}
+
+interface GridCell {
+  text: string
+  isHeader: boolean
+}
+
+/**
+ * Read a table into a grid, repeating cells that span several rows or columns
+ * Rows of nested tables are left out
+ */
+function readTableGrid($: CheerioAPI, table: Element): Array<{ cells: GridCell[]; inHead: boolean }> {
+  const grid: Array<{ cells: GridCell[]; inHead: boolean }> = []
+  const pendingRowSpans = new Map<number, { cell: GridCell; remaining: number }>()
+
+  const rows = $(table)
+    .find('tr')
+    .toArray()
+    .filter(row => $(row).closest('table').get(0) === table)
+
+  for (const row of rows) {
+    const cells: GridCell[] = []
+    let column = 0
+
+    const fillRowSpans = () => {
+      let pending = pendingRowSpans.get(column)
+      while (pending) {
+        cells.push(pending.cell)
+        if (--pending.remaining === 0) pendingRowSpans.delete(column)
+        column++
+        pending = pendingRowSpans.get(column)
+      }
+    }
+
+    for (const cellEl of $(row).children('th, td').toArray()) {
+      fillRowSpans()
+      const cell: GridCell = { text: cleanInline($(cellEl).text()), isHeader: cellEl.tagName.toLowerCase() === 'th' }
+      const colSpan = Math.min(Math.max(parseInt($(cellEl).attr('colspan') || '1', 10) || 1, 1), 50)
+      const rowSpan = Math.min(Math.max(parseInt($(cellEl).attr('rowspan') || '1', 10) || 1, 1), 100)
+
+      for (let i = 0; i < colSpan; i++) {
+        cells.push(cell)
+        if (rowSpan > 1) pendingRowSpans.set(column, { cell, remaining: rowSpan - 1 })
+        column++
+      }
+    }
+    fillRowSpans()
+
+    if (cells.some(cell => cell.text.length > 0)) {
+      grid.push({ cells, inHead: $(row).closest('thead').length > 0 })
+    }
+  }
+
+  return grid
+}
+
+/**
+ * Render a table as pipe-separated rows, header row first
+ */
+function renderTable($: CheerioAPI, table: Element): string {
+  return readTableGrid($, table)
+    .map(row => `| ${row.cells.map(cell => cell.text).join(' | ')} |`)
+    .join('\n')
+}
+
+/**
+ * Find a label for a table: caption, aria-label, or the closest heading before it
+ */
+function getTableCaption($: CheerioAPI, table: Element): string | null {
+  const caption = cleanInline($(table).children('caption').first().text()) || cleanInline($(table).attr('aria-label') || '')
+  if (caption) return caption
+
+  let node: AnyNode | null = table
+  while (node) {
+    let sibling: AnyNode | null = node.prev
+    while (sibling) {
+      if (sibling.type === 'tag') {
+        const $sibling = $(sibling)
+        const heading = $sibling.is('h1, h2, h3, h4, h5, h6') ? $sibling : $sibling.find('h1, h2, h3, h4, h5, h6').last()
+        const text = cleanInline(heading.text())
+        if (text) return text
+      }
+      sibling = sibling.prev
+    }
+    node = node.parent
+  }
+
+  return null
+}
+
+/**
+ * Extract data tables (premium tiers, deductible grids, match schedules) as rows and columns
+ * Layout tables - one column, no data rows, or wrapping other tables - are skipped
+ */
+export function extractTables(html: string): PageTable[] {
+  const $ = cheerio.load(html)
+  $(NOISE_SELECTORS.join(', ')).remove()
+
+  const tables: PageTable[] = []
+
+  for (const table of $('table').toArray()) {
+    if ($(table).find('table').length > 0) continue
+
+    const grid = readTableGrid($, table)
+    const columnCount = Math.max(0, ...grid.map(row => row.cells.length))
+    if (columnCount < 2) continue
+
+    // Header rows: <thead> rows, or leading rows made only of <th> cells
+    let headerRowCount = 0
+    while (
+      headerRowCount < grid.length - 1 &&
+      (grid[headerRowCount].inHead || grid[headerRowCount].cells.every(cell => cell.isHeader))
+    ) {
+      headerRowCount++
+    }
+
+    const rows = grid.slice(headerRowCount).map(row => {
+      const cells = row.cells.map(cell => cell.text)
+      while (cells.length < columnCount) cells.push('')
+      return cells
+    })
+    if (rows.length === 0) continue
+
+    const headers = Array.from({ length: headerRowCount > 0 ? columnCount : 0 }, (_, column) => {
+      const parts: string[] = []
+      for (const row of grid.slice(0, headerRowCount)) {
+        const text = row.cells[column]?.text ?? ''
+        if (text && parts[parts.length - 1] !== text) parts.push(text)
+      }
+      return parts.join(' - ')
+    })
+
+    tables.push({ caption: getTableCaption($, table), headers, rows })
+  }
+
+  return tables
+}
+
+/**
+ * Walk the content region and emit text that keeps headings, lists and tables
+ */
+function renderNode($: CheerioAPI, node: AnyNode, lines: string[], listDepth = 0): void {
+  if (node.type === 'text') {
+    const text = cleanInline($(node).text())
+    if (text) {
+      // Inline text joins the current line (keeping list indentation)
+      const current = lines[lines.length - 1] ?? ''
+      lines[lines.length - 1] = /(^|\s)$/.test(current) ? current + text : `${current} ${text}`
+    }
+    return
+  }
+
+  if (node.type !== 'tag') return
+
+  const el = node as Element
+  const tag = el.tagName.toLowerCase()
+
+  if (/^h[1-6]$/.test(tag)) {
+    const text = cleanInline($(el).text())
+    if (text) lines.push(`${'#'.repeat(Number(tag[1]))} ${text}`, '')
+    return
+  }
+
+  if (tag === 'table') {
+    const table = renderTable($, el)
+    if (table) lines.push(table, '')
+    return
+  }
+
+  if (tag === 'li') {
+    lines.push(`${'  '.repeat(Math.max(listDepth - 1, 0))}- `)
+    for (const child of el.children) renderNode($, child, lines, listDepth)
+    return
+  }
+
+  if (tag === 'br') {
+    lines.push('')
+    return
+  }
+
+  // Nested lists continue their parent list without blank lines
+  const isList = tag === 'ul' || tag === 'ol'
+  const isBlock = isList ? listDepth === 0 : BLOCK_TAGS.has(tag) && listDepth === 0
+  if (isBlock) lines.push('')
+  for (const child of el.children) renderNode($, child, lines, isList ? listDepth + 1 : listDepth)
+  if (isBlock) lines.push('')
+}
+
+/**
+ * Extract main content from HTML without an LLM (readability-style)
+ * Same result shape as the LLM extractor; output keeps headings (#), list items (-) and table rows (|)
+ */
+export function extractContentFromDom(html: string): { content: string; title: string } {
+  const $ = cheerio.load(html)
+
+  const documentTitle = cleanInline($('title').first().text())
+  $(NOISE_SELECTORS.join(', ')).remove()
+
+  const region = findMainRegion($) ?? $('body').get(0)
+  const lines: string[] = ['']
+  if (region) {
+    renderNode($, region, lines)
+  }
+
+  const content = lines
+    .map(line => line.replace(/\s+$/, ''))
+    .filter(line => !/^\s*-$/.test(line)) // Empty list items
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  const heading = region ? cleanInline($(region).find('h1').first().text()) : ''
+
+  return {
+    title: heading || documentTitle || 'Benefits Page',
+    content,
+  }
+}
+
+/**
+ * Lowercased word set used for overlap scoring
+ */
+function toWordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9$%.,]+/g)?.map(word => word.replace(/[.,]+$/, '')) ?? [])
+}
+
+/**
+ * Compare the output of the LLM and DOM extractors for one page
+ */
+export function compareExtractions(llmContent: string, domContent: string): ExtractionComparison {
+  const llmWords = toWordSet(llmContent)
+  const domWords = toWordSet(domContent)
+
+  let shared = 0
+  for (const word of llmWords) {
+    if (domWords.has(word)) shared++
+  }
+  const union = llmWords.size + domWords.size - shared
+
+  return {
+    llmChars: llmContent.length,
+    domChars: domContent.length,
+    overlap: union === 0 ? 0 : parseFloat((shared / union).toFixed(3)),
+    llmCoverage: llmWords.size === 0 ? 0 : parseFloat((shared / llmWords.size).toFixed(3)),
+  }
+}
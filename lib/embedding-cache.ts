@@ -0,0 +1,144 @@
+import { createHash } from 'crypto'
+import prisma from './prisma'
+import {
+  EMBEDDING_DIMENSIONS,
+  EMBEDDING_MODEL,
+  embeddingToString,
+  generateEmbedding,
+  generateEmbeddingsBatched,
+  stringToEmbedding,
+} from './embeddings'
+
+// Hashes looked up per query, to keep the IN list reasonable
+const LOOKUP_BATCH_SIZE = 500
+
+// Query embeddings kept in memory; the least recently used one is dropped beyond this
+const QUERY_EMBEDDING_CACHE_SIZE = Math.max(1, parseInt(process.env.QUERY_EMBEDDING_CACHE_SIZE || '500', 10))
+
+// Query embeddings by text hash, in least to most recently used order
+const queryEmbeddings = new Map<string, number[]>()
+
+export interface CachedEmbeddings {
+  embeddings: number[][] // In the order of the texts
+  hits: number // Texts whose embedding was found in the cache
+  misses: number // Texts embedded by OpenAI (duplicates within a call count once)
+}
+
+/**
+ * Whitespace differences do not change the meaning, so they share one embedding
+ */
+function normalizeEmbeddingText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function hashEmbeddingText(normalizedText: string): string {
+  return createHash('sha256').update(normalizedText).digest('hex')
+}
+
+/**
+ * Cached embeddings of the current model, by text hash
+ */
+async function findCachedEmbeddings(hashes: string[]): Promise<Map<string, number[]>> {
+  const cached = new Map<string, number[]>()
+  for (let i = 0; i < hashes.length; i += LOOKUP_BATCH_SIZE) {
+    const rows = await prisma.embeddingCache.findMany({
+      where: {
+        textHash: { in: hashes.slice(i, i + LOOKUP_BATCH_SIZE) },
+        model: EMBEDDING_MODEL,
+        dimensions: EMBEDDING_DIMENSIONS,
+      },
+      select: { textHash: true, embedding: true },
+    })
+    for (const row of rows) {
+      cached.set(row.textHash, stringToEmbedding(row.embedding))
+    }
+  }
+  return cached
+}
+
+async function storeEmbeddings(entries: Array<{ textHash: string; embedding: number[] }>): Promise<void> {
+  if (entries.length === 0) return
+  await prisma.embeddingCache.createMany({
+    data: entries.map(entry => ({
+      textHash: entry.textHash,
+      model: EMBEDDING_MODEL,
+      dimensions: EMBEDDING_DIMENSIONS,
+      embedding: embeddingToString(entry.embedding),
+    })),
+    skipDuplicates: true,
+  })
+}
+
+/**
+ * Embed texts, reusing embeddings of identical (normalized) texts made with the same model and dimensions
+ * Only the missing texts are sent to OpenAI, and they are cached for the next call.
+ * onBatch is called with the number of texts embedded so far, cache hits included.
+ */
+export async function getEmbeddingsCached(
+  texts: string[],
+  batchSize: number = 50,
+  onBatch?: (embedded: number) => Promise<void>
+): Promise<CachedEmbeddings> {
+  const normalizedTexts = texts.map(normalizeEmbeddingText)
+  const hashes = normalizedTexts.map(hashEmbeddingText)
+  const cached = await findCachedEmbeddings([...new Set(hashes)])
+
+  const hits = hashes.filter(hash => cached.has(hash)).length
+  await onBatch?.(hits)
+
+  // Embed each missing text once, however often it appears
+  const missing = new Map<string, string>()
+  hashes.forEach((hash, index) => {
+    if (!cached.has(hash)) missing.set(hash, normalizedTexts[index])
+  })
+
+  if (missing.size > 0) {
+    const missingHashes = [...missing.keys()]
+    const generated = await generateEmbeddingsBatched([...missing.values()], batchSize, async embedded =>
+      onBatch?.(hits + embedded)
+    )
+    const entries = missingHashes.map((textHash, index) => ({ textHash, embedding: generated[index] }))
+    await storeEmbeddings(entries)
+    for (const entry of entries) {
+      cached.set(entry.textHash, entry.embedding)
+    }
+  }
+
+  console.log(`✓ Embedding cache: ${hits} hits, ${missing.size} misses`)
+  return {
+    embeddings: hashes.map(hash => cached.get(hash)!),
+    hits,
+    misses: missing.size,
+  }
+}
+
+/**
+ * Remember a query embedding, dropping the least recently used ones beyond QUERY_EMBEDDING_CACHE_SIZE
+ */
+function rememberQueryEmbedding(textHash: string, embedding: number[]): void {
+  queryEmbeddings.delete(textHash)
+  queryEmbeddings.set(textHash, embedding)
+  while (queryEmbeddings.size > QUERY_EMBEDDING_CACHE_SIZE) {
+    queryEmbeddings.delete(queryEmbeddings.keys().next().value!)
+  }
+}
+
+/**
+ * Embed a search query, reusing a recent query's embedding or a stored chunk embedding of the same text
+ * Queries are only kept in a bounded in-memory cache, so distinct user queries do not grow embedding_cache.
+ */
+export async function getEmbeddingCached(text: string): Promise<number[]> {
+  const normalizedText = normalizeEmbeddingText(text)
+  const textHash = hashEmbeddingText(normalizedText)
+
+  const recent = queryEmbeddings.get(textHash)
+  if (recent) {
+    rememberQueryEmbedding(textHash, recent)
+    return recent
+  }
+
+  const cached = await findCachedEmbeddings([textHash])
+  const embedding = cached.get(textHash) ?? (await generateEmbedding(normalizedText))
+  rememberQueryEmbedding(textHash, embedding)
+  return embedding
+}
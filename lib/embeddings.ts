@@ -5,8 +5,8 @@ const openai = new OpenAI({
 })
 
 // OpenAI embedding model to use
-const EMBEDDING_MODEL = 'text-embedding-3-large'
-const EMBEDDING_DIMENSIONS = 1536
+export const EMBEDDING_MODEL = 'text-embedding-3-large'
+export const EMBEDDING_DIMENSIONS = 1536
 
 /**
  * Generate embeddings for a batch of texts
@@ -48,10 +48,12 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 
 /**
  * Generate embeddings for texts in batches to avoid token limits
+ * onBatch is called after each batch with the number of texts embedded so far
  */
 export async function generateEmbeddingsBatched(
   texts: string[],
-  batchSize: number = 50
+  batchSize: number = 50,
+  onBatch?: (embedded: number) => Promise<void>
 ): Promise<number[][]> {
   const allEmbeddings: number[][] = []
 
@@ -63,6 +65,7 @@ export async function generateEmbeddingsBatched(
 
     const embeddings = await generateEmbeddings(batch)
     allEmbeddings.push(...embeddings)
+    await onBatch?.(allEmbeddings.length)
 
     // Add delay between batches to respect API rate limits
     if (i + batchSize < texts.length) {
@@ -0,0 +1,486 @@
+import { chromium, Browser, Page, BrowserContext } from 'playwright'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  AuthExpiredError,
+  getStorageStatePath,
+  isLoginRedirect,
+  isScriptedLoginConfigured,
+  performScriptedLogin,
+} from './auth'
+import { runInteractions } from './interactions'
+import type { InteractionRule } from './crawl-config'
+
+export type FetchMode = 'live' | 'record' | 'replay'
+
+export interface DiscoveredLink {
+  url: string
+  text: string
+}
+
+/**
+ * Rendered snapshot of a single page, as seen by the crawler
+ */
+export interface FetchedPage {
+  url: string
+  finalUrl: string // Where the browser ended up after redirects
+  status: number | null
+  etag: string | null
+  lastModified: string | null
+  html: string
+  title: string
+  headings: string[]
+  links: DiscoveredLink[]
+  interactions: number // Interaction rules (clicks, reveals) run before capture
+  fetchedAt: string
+}
+
+/**
+ * Raw (non-rendered) response, e.g. robots.txt or sitemap.xml
+ */
+export interface FetchedResource {
+  url: string
+  status: number
+  contentType: string | null
+  etag: string | null
+  lastModified: string | null
+  body: Buffer
+  fetchedAt: string
+}
+
+/**
+ * What the browser showed when a page failed to load
+ */
+export interface FailureArtifacts {
+  screenshot: Buffer | null
+  html: string | null
+}
+
+export interface PageFetcherOptions {
+  interactionRules?: InteractionRule[] // Run on every rendered page before capture
+}
+
+export interface PageFetcher {
+  mode: FetchMode
+  fetchPage(url: string): Promise<FetchedPage>
+  fetchResource(url: string, headers?: Record<string, string>): Promise<FetchedResource>
+  close(): Promise<void>
+}
+
+// Environment configuration
+const PLAYWRIGHT_HEADLESS = process.env.PLAYWRIGHT_HEADLESS !== 'false'
+const SCRAPER_TIMEOUT = parseInt(process.env.SCRAPER_TIMEOUT || '60000', 10)
+const SCRAPER_READY_TIMEOUT = parseInt(process.env.SCRAPER_READY_TIMEOUT || '10000', 10)
+const SCRAPER_FETCH_MODE = process.env.SCRAPER_FETCH_MODE || 'live'
+const SCRAPER_ARCHIVE_DIR = process.env.SCRAPER_ARCHIVE_DIR || path.join(process.cwd(), '.crawl-archive')
+
+// User-Agent rotation for politeness
+const USER_AGENTS = [
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Safari/605.1.15',
+]
+
+// Singleton browser instance
+let browserInstance: Browser | null = null
+let browserContext: Promise<BrowserContext> | null = null
+let browserContextAuthenticated = false
+
+/**
+ * Error raised when replay mode is asked for a page that was never recorded
+ */
+export class ArchiveMissError extends Error {
+  constructor(url: string) {
+    super(`No archived snapshot for ${url}`)
+    this.name = 'ArchiveMissError'
+  }
+}
+
+/**
+ * Error raised when a live page fails to load, carrying what the browser showed at the time
+ * name/message are those of the underlying error, so a Playwright timeout still reads as TimeoutError
+ */
+export class PageLoadError extends Error {
+  artifacts: FailureArtifacts
+
+  constructor(cause: Error, artifacts: FailureArtifacts) {
+    super(cause.message, { cause })
+    this.name = cause.name
+    this.artifacts = artifacts
+  }
+}
+
+/**
+ * Get or create a browser instance (singleton pattern)
+ */
+async function getBrowser(): Promise<Browser> {
+  if (!browserInstance) {
+    console.log('Launching Chromium browser...')
+    browserInstance = await chromium.launch({
+      headless: PLAYWRIGHT_HEADLESS,
+      args: ['--disable-blink-features=AutomationControlled'],
+    })
+
+    // Cleanup on process exit
+    process.on('exit', () => {
+      if (browserInstance) {
+        browserInstance.close().catch(console.error)
+      }
+    })
+
+    process.on('SIGINT', () => {
+      if (browserInstance) {
+        browserInstance.close().catch(console.error)
+      }
+      process.exit(0)
+    })
+  }
+  return browserInstance
+}
+
+/**
+ * Check if the crawler has credentials: a scripted login or a saved storage state
+ */
+async function hasCrawlAuth(): Promise<boolean> {
+  if (isScriptedLoginConfigured()) {
+    return true
+  }
+  return fs.access(getStorageStatePath()).then(() => true, () => false)
+}
+
+/**
+ * Create the shared browser context, signed in when credentials are configured
+ * A scripted login takes precedence over a saved storage state
+ */
+async function createBrowserContext(): Promise<BrowserContext> {
+  const browser = await getBrowser()
+  const userAgent = USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)]
+  const scriptedLogin = isScriptedLoginConfigured()
+  const storageState = !scriptedLogin && (await hasCrawlAuth()) ? getStorageStatePath() : undefined
+
+  const context = await browser.newContext({
+    userAgent,
+    viewport: { width: 1920, height: 1080 },
+    locale: 'en-US',
+    storageState,
+  })
+
+  if (scriptedLogin) {
+    await performScriptedLogin(context)
+  } else if (storageState) {
+    console.log(`Using saved storage state: ${storageState}`)
+  }
+
+  browserContextAuthenticated = scriptedLogin || Boolean(storageState)
+  return context
+}
+
+/**
+ * Get or create a browser context (shared by concurrent workers, so created once)
+ */
+async function getBrowserContext(): Promise<BrowserContext> {
+  if (!browserContext) {
+    browserContext = createBrowserContext()
+    browserContext.catch(() => {
+      browserContext = null
+    })
+  }
+  return browserContext
+}
+
+/**
+ * Close browser and cleanup resources
+ */
+export async function closeBrowser(): Promise<void> {
+  if (browserContext) {
+    const context = await browserContext.catch(() => null)
+    browserContext = null
+    browserContextAuthenticated = false
+    await context?.close()
+  }
+  if (browserInstance) {
+    await browserInstance.close()
+    browserInstance = null
+  }
+  console.log('Browser closed')
+}
+
+/**
+ * Wait until the page has loaded and its visible text has stopped changing
+ * Bounded by SCRAPER_READY_TIMEOUT; a page that never settles is captured as-is
+ */
+async function waitForReady(page: Page): Promise<void> {
+  await page.waitForLoadState('load', { timeout: SCRAPER_READY_TIMEOUT }).catch(() => {})
+  await page
+    .waitForFunction(
+      () => {
+        const state = window as unknown as { __crawlerTextLength?: number }
+        const length = document.body?.innerText.length ?? 0
+        const settled = length > 0 && state.__crawlerTextLength === length
+        state.__crawlerTextLength = length
+        return settled
+      },
+      undefined,
+      { polling: 250, timeout: SCRAPER_READY_TIMEOUT }
+    )
+    .catch(() => {})
+}
+
+/**
+ * Load a page in the shared browser context and capture everything the crawler needs
+ * Matching interaction rules (dismiss dialogs, expand accordions, open tabs) run before capture
+ */
+async function fetchLivePage(url: string, interactionRules: InteractionRule[]): Promise<FetchedPage> {
+  let page: Page | null = null
+
+  try {
+    const context = await getBrowserContext()
+    page = await context.newPage()
+
+    // Set page timeout explicitly
+    page.setDefaultTimeout(SCRAPER_TIMEOUT)
+
+    // Navigate to the page with timeout
+    const response = await page.goto(url, {
+      waitUntil: 'domcontentloaded', // Changed from 'networkidle' for faster loading
+      timeout: SCRAPER_TIMEOUT,
+    })
+
+    // Landing on sign-on means the saved session no longer works; retrying will not help
+    if (browserContextAuthenticated && isLoginRedirect(url, page.url())) {
+      throw new AuthExpiredError(url, page.url())
+    }
+
+    // Wait for JS to render, then again once interactions have revealed hidden content
+    await waitForReady(page)
+    const interactions = await runInteractions(page, url, interactionRules)
+    if (interactions > 0) {
+      await waitForReady(page)
+    }
+
+    const title = await page.title()
+
+    // Extract all headings
+    const headings = await page.$$eval('h1, h2, h3, h4, h5, h6', (elements) =>
+      elements
+        .map(el => el.textContent?.trim())
+        .filter(text => text && text.length > 5)
+        .slice(0, 20)
+    ) as string[]
+
+    // Collect every link, resolved against the page it appears on
+    const links = await page.$$eval('a[href]', (elements) =>
+      elements
+        .map(el => {
+          const href = el.getAttribute('href')
+          if (!href) return null
+
+          try {
+            return { url: new URL(href, document.baseURI).toString(), text: el.textContent?.trim() || '' }
+          } catch {
+            return null
+          }
+        })
+        .filter(link => link !== null)
+    ) as DiscoveredLink[]
+
+    const html = await page.content()
+    const finalUrl = page.url()
+
+    await page.close()
+
+    return {
+      url,
+      finalUrl,
+      status: response?.status() ?? null,
+      etag: response?.headers()['etag'] ?? null,
+      lastModified: response?.headers()['last-modified'] ?? null,
+      html,
+      title,
+      headings,
+      links,
+      interactions,
+      fetchedAt: new Date().toISOString(),
+    }
+  } catch (error) {
+    if (!page || error instanceof AuthExpiredError || !(error instanceof Error)) {
+      await page?.close()
+      throw error
+    }
+
+    // Capture the page as it was for the crawl's failure report
+    const artifacts: FailureArtifacts = {
+      screenshot: await page.screenshot({ fullPage: true, timeout: SCRAPER_READY_TIMEOUT }).catch(() => null),
+      html: await page.content().catch(() => null),
+    }
+    await page.close()
+    throw new PageLoadError(error, artifacts)
+  }
+}
+
+/**
+ * Download a raw resource through the signed-in browser context, so it carries the session cookies
+ */
+async function fetchAuthenticatedResource(url: string, headers: Record<string, string>): Promise<FetchedResource> {
+  const context = await getBrowserContext()
+  const response = await context.request.get(url, { headers, timeout: SCRAPER_TIMEOUT })
+
+  if (isLoginRedirect(url, response.url())) {
+    throw new AuthExpiredError(url, response.url())
+  }
+
+  return {
+    url,
+    status: response.status(),
+    contentType: response.headers()['content-type'] ?? null,
+    etag: response.headers()['etag'] ?? null,
+    lastModified: response.headers()['last-modified'] ?? null,
+    body: await response.body(),
+    fetchedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Download a raw resource without rendering it
+ * Extra headers allow conditional requests (If-None-Match / If-Modified-Since)
+ */
+async function fetchLiveResource(url: string, headers: Record<string, string> = {}): Promise<FetchedResource> {
+  if (await hasCrawlAuth()) {
+    return fetchAuthenticatedResource(url, headers)
+  }
+
+  const response = await fetch(url, {
+    headers: { 'User-Agent': USER_AGENTS[0], ...headers },
+    signal: AbortSignal.timeout(SCRAPER_TIMEOUT),
+  })
+
+  return {
+    url,
+    status: response.status,
+    contentType: response.headers.get('content-type'),
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+    body: Buffer.from(await response.arrayBuffer()),
+    fetchedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Path of the archive file holding the snapshot for a URL
+ */
+function getArchivePath(url: string, prefix = ''): string {
+  const key = url.split('#')[0]
+  const hash = createHash('sha1').update(key).digest('hex')
+  return path.join(SCRAPER_ARCHIVE_DIR, `${prefix}${hash}.json`)
+}
+
+/**
+ * Save a snapshot to the local archive
+ */
+async function writeArchivedPage(snapshot: FetchedPage): Promise<void> {
+  await fs.mkdir(SCRAPER_ARCHIVE_DIR, { recursive: true })
+  await fs.writeFile(getArchivePath(snapshot.url), JSON.stringify(snapshot, null, 2), 'utf-8')
+}
+
+/**
+ * Load a snapshot from the local archive
+ */
+async function readArchivedPage(url: string): Promise<FetchedPage> {
+  try {
+    const raw = await fs.readFile(getArchivePath(url), 'utf-8')
+    return { finalUrl: url, status: null, etag: null, lastModified: null, interactions: 0, ...JSON.parse(raw) } as FetchedPage
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ArchiveMissError(url)
+    }
+    throw error
+  }
+}
+
+/**
+ * Save a raw resource to the local archive (body stored as base64)
+ */
+async function writeArchivedResource(resource: FetchedResource): Promise<void> {
+  await fs.mkdir(SCRAPER_ARCHIVE_DIR, { recursive: true })
+  const record = { ...resource, body: resource.body.toString('base64') }
+  await fs.writeFile(getArchivePath(resource.url, 'resource-'), JSON.stringify(record, null, 2), 'utf-8')
+}
+
+/**
+ * Load a raw resource from the local archive
+ */
+async function readArchivedResource(url: string): Promise<FetchedResource> {
+  try {
+    const raw = await fs.readFile(getArchivePath(url, 'resource-'), 'utf-8')
+    const record = JSON.parse(raw)
+    return { etag: null, lastModified: null, ...record, body: Buffer.from(record.body, 'base64') }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ArchiveMissError(url)
+    }
+    throw error
+  }
+}
+
+/**
+ * Resolve the fetch mode from an explicit value or SCRAPER_FETCH_MODE
+ */
+export function resolveFetchMode(mode?: string): FetchMode {
+  const value = mode || SCRAPER_FETCH_MODE
+  if (value === 'live' || value === 'record' || value === 'replay') {
+    return value
+  }
+  throw new Error(`Unknown fetch mode "${value}" (expected live, record or replay)`)
+}
+
+/**
+ * Create a page fetcher
+ * - live: render pages with Playwright
+ * - record: render pages with Playwright and save each snapshot to the archive
+ * - replay: serve snapshots from the archive without touching the network
+ */
+export function createPageFetcher(mode?: FetchMode, options: PageFetcherOptions = {}): PageFetcher {
+  const fetchMode = resolveFetchMode(mode)
+  const interactionRules = options.interactionRules ?? []
+
+  switch (fetchMode) {
+    case 'replay':
+      console.log(`Replaying pages from archive: ${SCRAPER_ARCHIVE_DIR}`)
+      return {
+        mode: fetchMode,
+        fetchPage: readArchivedPage,
+        fetchResource: readArchivedResource,
+        close: async () => {},
+      }
+
+    case 'record':
+      console.log(`Recording pages to archive: ${SCRAPER_ARCHIVE_DIR}`)
+      return {
+        mode: fetchMode,
+        fetchPage: async (url) => {
+          const snapshot = await fetchLivePage(url, interactionRules)
+          await writeArchivedPage(snapshot)
+          return snapshot
+        },
+        fetchResource: async (url, headers) => {
+          const resource = await fetchLiveResource(url, headers)
+          // A 304 has no body worth replaying
+          if (resource.status !== 304) {
+            await writeArchivedResource(resource)
+          }
+          return resource
+        },
+        close: closeBrowser,
+      }
+
+    default:
+      return {
+        mode: fetchMode,
+        fetchPage: url => fetchLivePage(url, interactionRules),
+        fetchResource: fetchLiveResource,
+        close: closeBrowser,
+      }
+  }
+}
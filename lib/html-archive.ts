@@ -0,0 +1,73 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { FetchedPage } from './fetcher'
+
+// Raw pages kept for reprocessing, stored once per content hash
+// A page that did not change between crawls points at the snapshot of the crawl that first saw it
+const SCRAPER_HTML_ARCHIVE_DIR =
+  process.env.SCRAPER_HTML_ARCHIVE_DIR || path.join(process.cwd(), '.crawl-archive', 'html')
+
+/**
+ * Path of the archived document for a content hash
+ */
+function getDocumentPath(contentHash: string, extension: 'json' | 'pdf'): string {
+  return path.join(SCRAPER_HTML_ARCHIVE_DIR, `${contentHash}.${extension}`)
+}
+
+/**
+ * Write a document unless one with the same hash is already archived
+ * Archiving never fails a crawl; errors are logged and the page is simply not reprocessable
+ */
+async function writeDocument(filePath: string, data: string | Buffer): Promise<void> {
+  try {
+    await fs.mkdir(SCRAPER_HTML_ARCHIVE_DIR, { recursive: true })
+    await fs.writeFile(filePath, data, { flag: 'wx' })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      console.warn(`  Could not archive ${path.basename(filePath)}:`, error instanceof Error ? error.message : error)
+    }
+  }
+}
+
+/**
+ * Read an archived document, or null when it was never archived
+ */
+async function readDocument(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Archive the rendered snapshot of a page
+ */
+export async function archiveHtmlSnapshot(contentHash: string, snapshot: FetchedPage): Promise<void> {
+  await writeDocument(getDocumentPath(contentHash, 'json'), JSON.stringify(snapshot))
+}
+
+/**
+ * Load an archived page snapshot
+ */
+export async function readArchivedHtmlSnapshot(contentHash: string): Promise<FetchedPage | null> {
+  const raw = await readDocument(getDocumentPath(contentHash, 'json'))
+  return raw ? (JSON.parse(raw.toString('utf-8')) as FetchedPage) : null
+}
+
+/**
+ * Archive the bytes of a PDF document
+ */
+export async function archivePdf(contentHash: string, data: Buffer): Promise<void> {
+  await writeDocument(getDocumentPath(contentHash, 'pdf'), data)
+}
+
+/**
+ * Load an archived PDF document
+ */
+export async function readArchivedPdf(contentHash: string): Promise<Buffer | null> {
+  return readDocument(getDocumentPath(contentHash, 'pdf'))
+}
@@ -0,0 +1,191 @@
+import { Prisma } from '@prisma/client'
+import prisma from './prisma'
+import { CHUNKING_SETTINGS } from './chunking'
+import { EMBEDDING_DIMENSIONS, EMBEDDING_MODEL } from './embeddings'
+import { copyStoredPages, PageCopy } from './page-store'
+
+// Versions kept after a swap (the live one included), so the index can be rolled back and past answers re-run
+const INDEX_VERSIONS_TO_KEEP = Math.max(1, parseInt(process.env.INDEX_VERSIONS_TO_KEEP || '5', 10))
+
+// Live page URLs looked up per query when copying unchanged pages, to keep the IN list reasonable
+const COPY_LOOKUP_BATCH_SIZE = 500
+
+/**
+ * Pages search reads: the live version's crawled pages plus uploaded pages (which belong to no version)
+ */
+export const LIVE_PAGE_FILTER: Prisma.PageWhereInput = {
+  OR: [{ indexVersion: { status: 'live' } }, { indexVersionId: null }],
+}
+
+export interface IndexVersionSummary {
+  id: number
+  status: string
+  crawlSessionId: number | null
+  chunkSettings: Prisma.JsonValue
+  embeddingModel: string | null
+  embeddingDimensions: number | null
+  createdAt: Date
+  activatedAt: Date | null
+  pages: number
+  chunks: number
+}
+
+/**
+ * Start building a new index version with the current chunking and embedding settings
+ * It stays invisible to search until it is activated
+ */
+export async function createIndexVersion(crawlSessionId: number | null): Promise<number> {
+  const version = await prisma.indexVersion.create({
+    data: {
+      status: 'building',
+      crawlSessionId,
+      chunkSettings: CHUNKING_SETTINGS,
+      embeddingModel: EMBEDDING_MODEL,
+      embeddingDimensions: EMBEDDING_DIMENSIONS,
+    },
+  })
+  console.log(`✓ Building index version #${version.id}`)
+  return version.id
+}
+
+/**
+ * Copy crawled pages of the live version (with their chunks and embeddings) into a version being built
+ * Fields in a copy override the stored ones, e.g. validators refreshed by a revalidated crawl.
+ * Returns the number of pages copied; URLs the live version does not have are skipped.
+ */
+export async function copyLivePages(
+  indexVersionId: number,
+  copies: Array<{ url: string } & PageCopy['overrides']>
+): Promise<number> {
+  if (copies.length === 0) return 0
+
+  // Look pages up a slice of URLs at a time; their chunks are loaded batch by batch while copying
+  const pageCopies: PageCopy[] = []
+  for (let i = 0; i < copies.length; i += COPY_LOOKUP_BATCH_SIZE) {
+    const slice = copies.slice(i, i + COPY_LOOKUP_BATCH_SIZE)
+    const livePages = await prisma.page.findMany({
+      where: { indexVersion: { status: 'live' }, url: { in: slice.map(copy => copy.url) } },
+      select: { id: true, url: true, _count: { select: { chunks: true } } },
+    })
+    const livePagesByUrl = new Map(livePages.map(page => [page.url, page]))
+
+    for (const { url, ...overrides } of slice) {
+      const page = livePagesByUrl.get(url)
+      if (page) {
+        pageCopies.push({ pageId: page.id, chunkCount: page._count.chunks, overrides })
+      }
+    }
+  }
+
+  const copied = await copyStoredPages(indexVersionId, pageCopies)
+  console.log(`✓ Copied ${copied} unchanged pages from the live version into version #${indexVersionId}`)
+  return copied
+}
+
+/**
+ * Make a version live and retire the current one; pass the transaction the switch is part of
+ */
+export async function swapLiveVersion(tx: Prisma.TransactionClient, indexVersionId: number): Promise<void> {
+  await tx.indexVersion.updateMany({
+    where: { status: 'live' },
+    data: { status: 'retired' },
+  })
+  await tx.indexVersion.update({
+    where: { id: indexVersionId },
+    data: { status: 'live', activatedAt: new Date() },
+  })
+}
+
+/**
+ * Delete a version that will never go live (its pages and chunks cascade)
+ */
+export async function discardIndexVersion(indexVersionId: number): Promise<void> {
+  await prisma.indexVersion.deleteMany({ where: { id: indexVersionId, status: 'building' } })
+  console.log(`✓ Discarded index version #${indexVersionId}`)
+}
+
+/**
+ * ID of the version search currently reads, or null before the first reindex
+ */
+export async function getLiveIndexVersionId(): Promise<number | null> {
+  const version = await prisma.indexVersion.findFirst({ where: { status: 'live' }, select: { id: true } })
+  return version?.id ?? null
+}
+
+/**
+ * Delete retired versions beyond the last INDEX_VERSIONS_TO_KEEP (the live one included), least recently live first
+ */
+export async function pruneIndexVersions(): Promise<number> {
+  const retired = await prisma.indexVersion.findMany({
+    where: { status: 'retired' },
+    orderBy: { activatedAt: 'desc' },
+    select: { id: true },
+  })
+  const ids = retired.slice(INDEX_VERSIONS_TO_KEEP - 1).map(version => version.id)
+  if (ids.length === 0) return 0
+
+  await prisma.indexVersion.deleteMany({ where: { id: { in: ids } } })
+  console.log(`✓ Pruned ${ids.length} old index version(s): ${ids.map(id => `#${id}`).join(', ')}`)
+  return ids.length
+}
+
+/**
+ * Put a retired version back live (rollback); the current live version is retired and can be restored the same way
+ */
+export async function activateIndexVersion(indexVersionId: number): Promise<void> {
+  const version = await prisma.indexVersion.findUnique({
+    where: { id: indexVersionId },
+    select: { status: true },
+  })
+  if (!version || version.status !== 'retired') {
+    throw new Error(`Index version ${indexVersionId} is ${version?.status ?? 'missing'} and cannot be activated`)
+  }
+
+  const previousId = await getLiveIndexVersionId()
+  await prisma.$transaction(tx => swapLiveVersion(tx, indexVersionId))
+
+  await prisma.adminLog.create({
+    data: {
+      action: 'index_rollback',
+      status: 'success',
+      message: `Index version #${indexVersionId} is live again (was #${previousId ?? 'none'})`,
+      metadata: { indexVersionId, previousVersionId: previousId },
+    },
+  })
+  console.log(`✓ Activated index version #${indexVersionId}`)
+}
+
+/**
+ * Index versions with their page and chunk counts, newest first
+ */
+export async function listIndexVersions(): Promise<IndexVersionSummary[]> {
+  const versions = await prisma.indexVersion.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: { _count: { select: { pages: true, chunks: true } } },
+  })
+
+  return versions.map(version => ({
+    id: version.id,
+    status: version.status,
+    crawlSessionId: version.crawlSessionId,
+    chunkSettings: version.chunkSettings,
+    embeddingModel: version.embeddingModel,
+    embeddingDimensions: version.embeddingDimensions,
+    createdAt: version.createdAt,
+    activatedAt: version.activatedAt,
+    pages: version._count.pages,
+    chunks: version._count.chunks,
+  }))
+}
+
+/**
+ * Delete versions left building by a previous process
+ * Call once at startup, before this process starts any reindex
+ */
+export async function discardUnfinishedIndexVersions(): Promise<number> {
+  const { count } = await prisma.indexVersion.deleteMany({ where: { status: 'building' } })
+  if (count > 0) {
+    console.log(`✓ Discarded ${count} index version(s) left building`)
+  }
+  return count
+}
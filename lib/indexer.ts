@@ -1,174 +1,424 @@
 import prisma from './prisma'
-import { crawlBenefitsPages } from './scraper'
-import { chunkPages, printChunkingStats } from './chunking'
-import { generateEmbeddingsBatched, embeddingToString } from './embeddings'
+import {
+  crawlBenefitsPages,
+  rebuildArchivedPage,
+  CrawlOptions,
+  CrawlResumeState,
+  CrawlScope,
+  ExtractorMode,
+  ScrapedPage,
+} from './scraper'
+import { loadActiveCrawlScope } from './crawl-config'
+import { clearCrawlState, loadCrawlResumeState, saveCrawlProgress, CrawlSettings } from './crawl-checkpoint'
+import { chunkPages, printChunkingStats, ChunkedContent } from './chunking'
+import { insertChunkedPages, STORE_TRANSACTION_TIMEOUT_MS, writeChunkedPages } from './page-store'
+import { getEmbeddingsCached, CachedEmbeddings } from './embedding-cache'
+import { AuthExpiredError } from './auth'
+import { CrawlStoppedError, finishStoppedCrawl, isStopRequested } from './crawl-control'
+import { getUploadFormat, parseUploadedDocument, UploadNameConflictError } from './uploads'
+import {
+  copyLivePages,
+  createIndexVersion,
+  discardIndexVersion,
+  pruneIndexVersions,
+  swapLiveVersion,
+  LIVE_PAGE_FILTER,
+} from './index-versions'
 
-/**
- * Reindex all benefit content
- * This is the main orchestration function
- */
-export async function reindexContent(): Promise<{
+export interface ReindexResult {
   pagesIndexed: number
+  pagesFailed: number // Visited but produced no content (navigation steps with a failure reason)
   chunksCreated: number
   embeddingsGenerated: number
+  embeddingCacheHits: number // Chunk embeddings reused from the embedding cache
+  embeddingCacheMisses: number // Chunk texts sent to OpenAI
   duration: number
   crawlSessionId: number
   navigationSteps: number
-}> {
+  pagesNew: number
+  pagesChanged: number
+  pagesUnchanged: number
+  pagesRemoved: number
+  status: 'completed' | 'failed' | 'paused' | 'cancelled' // Final status of the crawl session
+  indexVersionId: number | null // Version that went live, null when the session did not complete
+}
+
+export type ReindexStage = 'crawl' | 'chunk' | 'embed' | 'store'
+
+/**
+ * Counts of a running reindex, filled in stage by stage
+ */
+export interface ReindexCounts {
+  pagesCrawled: number
+  pagesFailed: number
+  pagesSkipped: number
+  maxPages: number // Page budget of the crawl
+  chunksCreated: number // Chunks of new and changed pages, to be embedded and stored
+  embeddingsGenerated: number
+  chunksStored: number
+}
+
+/**
+ * Progress reported while a reindex runs (after each page, embedding batch and stored chunk)
+ */
+export interface ReindexProgress {
+  crawlSessionId: number
+  stage: ReindexStage
+  percent: number
+  counts: ReindexCounts
+}
+
+export type ReindexProgressListener = (progress: ReindexProgress) => Promise<void>
+
+// Share of the overall progress each stage covers; crawling takes most of a run
+const STAGE_PERCENT_RANGES: Record<ReindexStage, [number, number]> = {
+  crawl: [0, 60],
+  chunk: [60, 65],
+  embed: [65, 90],
+  store: [90, 100],
+}
+
+export interface UploadResult {
+  url: string
+  title: string
+  chunksCreated: number
+  embeddingsGenerated: number
+  replaced: boolean // A document with the same file name was already uploaded
+}
+
+export interface ReprocessResult {
+  crawlSessionId: number
+  pagesReprocessed: number
+  pagesMissing: number // Scraped by the session but not in the archive (or no longer extractable)
+  pagesRemoved: number
+  chunksCreated: number
+  embeddingsGenerated: number
+  embeddingCacheHits: number
+  embeddingCacheMisses: number
+  duration: number
+  indexVersionId: number
+}
+
+/**
+ * Reindex all benefit content
+ * This is the main orchestration function
+ */
+export async function reindexContent(
+  options: CrawlOptions = {},
+  onProgress?: ReindexProgressListener
+): Promise<ReindexResult> {
+  console.log('\n========================================')
+  console.log('Starting content reindexing...')
+  console.log('========================================\n')
+
+  // Step 1: Create crawl session with a snapshot of the config and settings it runs with
+  console.log('Step 1: Creating crawl session...')
+  const scope = options.scope ?? await loadActiveCrawlScope()
+  const settings: CrawlSettings = {
+    fetchMode: options.fetchMode,
+    extractor: options.extractor,
+    concurrency: options.concurrency,
+  }
+  const crawlSession = await prisma.crawlSession.create({
+    data: {
+      startedAt: new Date(),
+      status: 'in_progress',
+      pagesScraped: 0,
+      crawlConfigId: scope.configId,
+      configSnapshot: { ...scope, interactionRules: scope.interactionRules.map(rule => ({ ...rule })) },
+      crawlState: { ...settings },
+    },
+  })
+  console.log(`✓ Created crawl session #${crawlSession.id} (config: ${scope.name})\n`)
+
+  return runReindex(crawlSession.id, scope, settings, undefined, onProgress)
+}
+
+/**
+ * Continue an interrupted, failed or paused crawl session from its last checkpoint
+ */
+export async function resumeReindex(
+  crawlSessionId: number,
+  onProgress?: ReindexProgressListener
+): Promise<ReindexResult> {
+  console.log('\n========================================')
+  console.log(`Resuming crawl session #${crawlSessionId}...`)
+  console.log('========================================\n')
+
+  const { scope, settings, resumeFrom } = await loadCrawlResumeState(crawlSessionId)
+  await prisma.crawlSession.update({
+    where: { id: crawlSessionId },
+    data: {
+      status: 'in_progress',
+      completedAt: null,
+    },
+  })
+
+  return runReindex(crawlSessionId, scope, settings, resumeFrom, onProgress)
+}
+
+/**
+ * Overall percent complete of a reindex in the given stage
+ */
+function getReindexPercent(stage: ReindexStage, counts: ReindexCounts): number {
+  const [start, end] = STAGE_PERCENT_RANGES[stage]
+  const [done, total] =
+    stage === 'crawl' ? [counts.pagesCrawled, counts.maxPages]
+    : stage === 'embed' ? [counts.embeddingsGenerated, counts.chunksCreated]
+    : stage === 'store' ? [counts.chunksStored, counts.chunksCreated]
+    : [0, 1]
+  const fraction = total > 0 ? Math.min(done / total, 1) : 0
+  return Math.round(start + (end - start) * fraction)
+}
+
+/**
+ * URLs that resolved to another page during a crawl session, by the URL of that page
+ */
+async function loadPageAliases(crawlSessionId: number): Promise<Map<string, string[]>> {
+  const steps = await prisma.navigationStep.findMany({
+    where: { crawlSessionId, scraped: true, canonicalUrl: { not: null } },
+    orderBy: { visitedAt: 'asc' },
+    select: { url: true, canonicalUrl: true },
+  })
+
+  const aliases = new Map<string, string[]>()
+  for (const step of steps) {
+    const pageAliases = aliases.get(step.canonicalUrl!) ?? []
+    if (step.url !== step.canonicalUrl && !pageAliases.includes(step.url)) {
+      aliases.set(step.canonicalUrl!, [...pageAliases, step.url])
+    }
+  }
+  return aliases
+}
+
+/**
+ * Embed the chunks of chunked pages, in chunk order; chunks whose text was embedded before come from the cache
+ */
+async function embedChunkedPages(
+  chunkedPages: ChunkedContent[],
+  onBatch?: (embedded: number) => Promise<void>
+): Promise<CachedEmbeddings> {
+  console.log('Generating embeddings...')
+  const allChunkTexts = chunkedPages.flatMap(p => p.chunks).map(chunk => chunk.text)
+
+  const result = await getEmbeddingsCached(allChunkTexts, 50, onBatch)
+  console.log(`✓ Generated ${result.embeddings.length} embeddings\n`)
+  return result
+}
+
+/**
+ * Crawl and index for an existing session (steps 2-8)
+ * The crawl's pages go into a new index version built next to the live one; the version goes live and the
+ * session completes in one transaction. Search never sees a partial index, and a reindex that fails or is
+ * paused or cancelled (checked between pages and before the swap) leaves the live version as it was.
+ */
+async function runReindex(
+  crawlSessionId: number,
+  scope: CrawlScope,
+  settings: CrawlSettings,
+  resumeFrom?: CrawlResumeState,
+  onProgress?: ReindexProgressListener
+): Promise<ReindexResult> {
   const startTime = Date.now()
-  let crawlSession: any = null
+  const counts: ReindexCounts = {
+    pagesCrawled: resumeFrom?.pages.length ?? 0,
+    pagesFailed: 0,
+    pagesSkipped: 0,
+    maxPages: scope.maxPages,
+    chunksCreated: 0,
+    embeddingsGenerated: 0,
+    chunksStored: 0,
+  }
+  const reportProgress = async (stage: ReindexStage) => {
+    await onProgress?.({ crawlSessionId, stage, percent: getReindexPercent(stage, counts), counts: { ...counts } })
+  }
 
   try {
-    console.log('\n========================================')
-    console.log('Starting content reindexing...')
-    console.log('========================================\n')
-
-    // Step 1: Create crawl session
-    console.log('Step 1: Creating crawl session...')
-    crawlSession = await prisma.crawlSession.create({
-      data: {
-        startedAt: new Date(),
-        status: 'in_progress',
-        pagesScraped: 0,
+    // Step 2: Crawl benefits pages (known pages are revalidated instead of re-extracted)
+    // Navigation steps, scraped pages and the frontier are saved as the crawl runs
+    console.log('Step 2: Crawling benefits pages...')
+    // A resumed session already has steps from before it stopped
+    ;[counts.pagesFailed, counts.pagesSkipped] = await Promise.all([
+      prisma.navigationStep.count({ where: { crawlSessionId, failureReason: { not: null } } }),
+      prisma.navigationStep.count({ where: { crawlSessionId, skipReason: { not: null } } }),
+    ])
+    await reportProgress('crawl')
+    const knownPages = await prisma.page.findMany({
+      where: { indexVersion: { status: 'live' } },
+      select: { url: true, title: true, contentHash: true, etag: true, lastModified: true, aliases: true },
+    })
+    const crawlResult = await crawlBenefitsPages({
+      ...settings,
+      scope,
+      knownPages,
+      resumeFrom,
+      onProgress: async progress => {
+        await saveCrawlProgress(crawlSessionId, settings, progress)
+        counts.pagesCrawled += progress.pages.length
+        counts.pagesFailed += progress.navigationSteps.filter(step => step.failureReason).length
+        counts.pagesSkipped += progress.navigationSteps.filter(step => step.skipReason).length
+        await reportProgress('crawl')
       },
+      shouldStop: () => isStopRequested(crawlSessionId),
     })
-    console.log(`✓ Created crawl session #${crawlSession.id}\n`)
-
-    // Step 2: Crawl benefits pages
-    console.log('Step 2: Crawling benefits pages...')
-    const crawlResult = await crawlBenefitsPages()
-    console.log(`✓ Crawled ${crawlResult.pages.length} pages\n`)
+    if (crawlResult.stopped) {
+      throw new CrawlStoppedError(crawlSessionId)
+    }
+    const navigationStepCount = await prisma.navigationStep.count({ where: { crawlSessionId } })
+    console.log(`✓ Crawled ${crawlResult.pages.length} pages (${navigationStepCount} navigation steps saved)\n`)
 
     if (crawlResult.pages.length === 0) {
       console.warn('No pages crawled. Marking session as failed.')
       await prisma.crawlSession.update({
-        where: { id: crawlSession.id },
+        where: { id: crawlSessionId },
         data: {
           status: 'failed',
           completedAt: new Date(),
         },
       })
+      // The crawl ran to the end, so there is nothing to resume
+      await clearCrawlState(crawlSessionId)
       return {
         pagesIndexed: 0,
+        pagesFailed: counts.pagesFailed,
         chunksCreated: 0,
         embeddingsGenerated: 0,
+        embeddingCacheHits: 0,
+        embeddingCacheMisses: 0,
         duration: 0,
-        crawlSessionId: crawlSession.id,
-        navigationSteps: 0,
+        crawlSessionId: crawlSessionId,
+        navigationSteps: navigationStepCount,
+        pagesNew: 0,
+        pagesChanged: 0,
+        pagesUnchanged: 0,
+        pagesRemoved: 0,
+        status: 'failed',
+        indexVersionId: null,
       }
     }
 
-    // Step 3: Save navigation steps to database
-    console.log('Step 3: Saving navigation steps...')
-    await prisma.navigationStep.createMany({
-      data: crawlResult.navigationSteps.map(step => ({
-        crawlSessionId: crawlSession.id,
-        url: step.url,
-        depth: step.depth,
-        parentUrl: step.parentUrl,
-        linkText: step.linkText,
-        visitedAt: step.visitedAt,
-        scraped: step.scraped,
-      })),
-    })
-    console.log(`✓ Saved ${crawlResult.navigationSteps.length} navigation steps\n`)
+    // Step 3: Compare against the current index (URLs that resolved to a crawled page become its aliases)
+    console.log('Step 3: Comparing against the current index...')
+    const aliases = await loadPageAliases(crawlSessionId)
+    const crawledPages = crawlResult.pages.map(page => ({ ...page, aliases: aliases.get(page.url) ?? [] }))
+    const scrapedPages = crawledPages.filter(page => page.changeStatus !== 'unchanged')
+    const unchangedPages = crawledPages.filter(page => page.changeStatus === 'unchanged')
+    const crawledUrls = new Set(crawlResult.pages.map(page => page.url))
+    const removedUrls = knownPages.map(page => page.url).filter(url => !crawledUrls.has(url))
+    const changeCounts = {
+      pagesNew: scrapedPages.filter(page => page.changeStatus !== 'changed').length,
+      pagesChanged: scrapedPages.filter(page => page.changeStatus === 'changed').length,
+      pagesUnchanged: unchangedPages.length,
+      pagesRemoved: removedUrls.length,
+    }
+    console.log(
+      `Changes: ${changeCounts.pagesNew} new, ${changeCounts.pagesChanged} changed, ${changeCounts.pagesUnchanged} unchanged, ${changeCounts.pagesRemoved} removed\n`
+    )
 
     // Update crawl session with pages scraped count
     await prisma.crawlSession.update({
-      where: { id: crawlSession.id },
+      where: { id: crawlSessionId },
       data: {
         pagesScraped: crawlResult.pages.length,
+        ...changeCounts,
       },
     })
 
-    const scrapedPages = crawlResult.pages
-
-    // Step 4: Chunk content
+    // Step 4: Chunk content (new and changed pages only)
     console.log('Step 4: Chunking content...')
+    await reportProgress('chunk')
     const chunkedPages = chunkPages(scrapedPages)
-    printChunkingStats(chunkedPages)
+    if (chunkedPages.length > 0) {
+      printChunkingStats(chunkedPages)
+    }
+    counts.chunksCreated = chunkedPages.reduce((sum, page) => sum + page.chunks.length, 0)
 
-    // Step 5: Clear old data
-    console.log('Step 5: Clearing old data from database...')
-    const deletedChunks = await prisma.chunk.deleteMany({})
-    const deletedPages = await prisma.page.deleteMany({})
-    console.log(`✓ Deleted ${deletedChunks.count} chunks and ${deletedPages.count} pages\n`)
-
-    // Step 6: Store pages and chunks
-    console.log('Step 6: Storing pages in database...')
-    const storedPages = await Promise.all(
-      scrapedPages.map(page =>
-        prisma.page.create({
-          data: {
-            url: page.url,
-            title: page.title,
-            crawledAt: new Date(),
-          },
-        })
-      )
+    // Step 5: Generate embeddings (new and changed pages only)
+    console.log('Step 5: Generating embeddings...')
+    await reportProgress('embed')
+    const { embeddings, hits: embeddingCacheHits, misses: embeddingCacheMisses } = await embedChunkedPages(
+      chunkedPages,
+      async embedded => {
+        counts.embeddingsGenerated = embedded
+        await reportProgress('embed')
+      }
     )
-    console.log(`✓ Stored ${storedPages.length} pages\n`)
-
-    // Step 7: Generate embeddings for all chunks
-    console.log('Step 7: Generating embeddings...')
-    const allChunks = chunkedPages.flatMap(p => p.chunks)
-    const allChunkTexts = allChunks.map(chunk => chunk.text)
-
-    const embeddings = await generateEmbeddingsBatched(allChunkTexts, 50)
-    console.log(`✓ Generated ${embeddings.length} embeddings\n`)
+    const embeddingsGenerated = embeddings.length
 
-    // Step 8: Store chunks with embeddings
-    console.log('Step 8: Storing chunks with embeddings...')
-    let chunksStored = 0
-
-    for (let i = 0; i < chunkedPages.length; i++) {
-      const chunkedPage = chunkedPages[i]
-      const page = storedPages[i]
+    if (await isStopRequested(crawlSessionId)) {
+      throw new CrawlStoppedError(crawlSessionId)
+    }
 
-      for (let j = 0; j < chunkedPage.chunks.length; j++) {
-        const chunk = chunkedPage.chunks[j]
-        const embeddingIndex = chunkedPages
-          .slice(0, i)
-          .reduce((sum, p) => sum + p.chunks.length, 0) + j
+    // Step 6: Build a new index version: changed and new pages as crawled, unchanged pages copied from the live version
+    // Removed pages are simply not part of it
+    console.log('Step 6: Building new index version...')
+    await reportProgress('store')
+    const indexVersionId = await createIndexVersion(crawlSessionId)
+    let chunksStored: number
+    try {
+      await copyLivePages(
+        indexVersionId,
+        unchangedPages.map(page => ({
+          url: page.url,
+          etag: page.etag,
+          lastModified: page.lastModified,
+          aliases: page.aliases,
+          crawledAt: new Date(),
+        }))
+      )
+      ;({ chunksStored } = await writeChunkedPages(
+        indexVersionId,
+        scrapedPages,
+        chunkedPages,
+        embeddings,
+        'crawl',
+        async stored => {
+          counts.chunksStored = stored
+          await reportProgress('store')
+        }
+      ))
 
-        await prisma.chunk.create({
+      // Step 7: Swap the new version live and complete the session in one transaction
+      // A pause or cancel that lands first makes the session update match nothing, so the swap is rolled back
+      console.log('Step 7: Swapping the new index version live...')
+      await prisma.$transaction(async tx => {
+        const completed = await tx.crawlSession.updateMany({
+          where: { id: crawlSessionId, status: 'in_progress' },
           data: {
-            pageId: page.id,
-            text: chunk.text,
-            embedding: embeddingToString(embeddings[embeddingIndex]),
-            category: chunk.category,
-            sourceUrl: chunk.sourceUrl,
+            status: 'completed',
+            completedAt: new Date(),
           },
         })
-
-        chunksStored++
-      }
+        if (completed.count === 0) {
+          throw new CrawlStoppedError(crawlSessionId)
+        }
+        await swapLiveVersion(tx, indexVersionId)
+      })
+    } catch (error) {
+      await discardIndexVersion(indexVersionId).catch(console.error)
+      throw error
     }
-    console.log(`✓ Stored ${chunksStored} chunks with embeddings\n`)
+    await pruneIndexVersions()
+    await clearCrawlState(crawlSessionId)
+    console.log(`✓ Index version #${indexVersionId} is live, crawl session #${crawlSessionId} completed\n`)
 
-    // Step 9: Mark crawl session as completed
-    console.log('Step 9: Updating crawl session status...')
-    await prisma.crawlSession.update({
-      where: { id: crawlSession.id },
-      data: {
-        status: 'completed',
-        completedAt: new Date(),
-      },
-    })
-    console.log(`✓ Marked crawl session #${crawlSession.id} as completed\n`)
-
-    // Step 10: Log the reindex action
+    // Step 8: Log the reindex action
     await prisma.adminLog.create({
       data: {
         action: 'reindex',
         status: 'success',
-        message: `Indexed ${scrapedPages.length} pages into ${chunksStored} chunks with embeddings`,
+        message: `Indexed ${scrapedPages.length} new or changed pages into ${chunksStored} chunks with embeddings (${changeCounts.pagesUnchanged} unchanged, ${changeCounts.pagesRemoved} removed)`,
         metadata: {
-          pagesIndexed: scrapedPages.length,
+          pagesIndexed: crawlResult.pages.length,
+          pagesFailed: counts.pagesFailed,
           chunksCreated: chunksStored,
-          embeddingsGenerated: embeddings.length,
-          crawlSessionId: crawlSession.id,
-          navigationSteps: crawlResult.navigationSteps.length,
+          embeddingsGenerated,
+          embeddingCacheHits,
+          embeddingCacheMisses,
+          crawlSessionId: crawlSessionId,
+          navigationSteps: navigationStepCount,
+          indexVersionId,
+          ...changeCounts,
         },
       },
     })
@@ -177,44 +427,250 @@ export async function reindexContent(): Promise<{
     console.log('\n========================================')
     console.log('✓ Reindexing completed successfully!')
     console.log('========================================')
-    console.log(`Pages indexed: ${scrapedPages.length}`)
+    console.log(`Pages indexed: ${crawlResult.pages.length} (${changeCounts.pagesNew} new, ${changeCounts.pagesChanged} changed, ${changeCounts.pagesUnchanged} unchanged, ${changeCounts.pagesRemoved} removed)`)
     console.log(`Chunks created: ${chunksStored}`)
-    console.log(`Embeddings generated: ${embeddings.length}`)
-    console.log(`Navigation steps: ${crawlResult.navigationSteps.length}`)
-    console.log(`Crawl session ID: ${crawlSession.id}`)
+    console.log(`Embeddings generated: ${embeddingsGenerated} (${embeddingCacheHits} from cache, ${embeddingCacheMisses} from OpenAI)`)
+    console.log(`Navigation steps: ${navigationStepCount}`)
+    console.log(`Crawl session ID: ${crawlSessionId}`)
     console.log(`Duration: ${(duration / 1000).toFixed(2)}s\n`)
 
     return {
-      pagesIndexed: scrapedPages.length,
+      pagesIndexed: crawlResult.pages.length,
+      pagesFailed: counts.pagesFailed,
       chunksCreated: chunksStored,
-      embeddingsGenerated: embeddings.length,
+      embeddingsGenerated,
+      embeddingCacheHits,
+      embeddingCacheMisses,
       duration,
-      crawlSessionId: crawlSession.id,
-      navigationSteps: crawlResult.navigationSteps.length,
+      crawlSessionId: crawlSessionId,
+      navigationSteps: navigationStepCount,
+      ...changeCounts,
+      status: 'completed',
+      indexVersionId,
     }
   } catch (error) {
+    if (error instanceof CrawlStoppedError) {
+      // The crawl's progress is checkpointed; a paused session resumes from it, a cancelled one drops it
+      const status = await finishStoppedCrawl(crawlSessionId)
+      const navigationStepCount = await prisma.navigationStep.count({ where: { crawlSessionId } })
+      console.log(`Reindex of crawl session #${crawlSessionId} stopped (${status}), index unchanged\n`)
+      return {
+        pagesIndexed: 0,
+        pagesFailed: counts.pagesFailed,
+        chunksCreated: 0,
+        embeddingsGenerated: 0,
+        embeddingCacheHits: 0,
+        embeddingCacheMisses: 0,
+        duration: Date.now() - startTime,
+        crawlSessionId,
+        navigationSteps: navigationStepCount,
+        pagesNew: 0,
+        pagesChanged: 0,
+        pagesUnchanged: 0,
+        pagesRemoved: 0,
+        status,
+        indexVersionId: null,
+      }
+    }
+
     console.error('Error during reindexing:', error)
 
-    // Mark crawl session as failed if it was created
-    if (crawlSession) {
-      await prisma.crawlSession.update({
-        where: { id: crawlSession.id },
-        data: {
-          status: 'failed',
-          completedAt: new Date(),
-        },
-      }).catch(console.error)
-    }
+    // Mark crawl session as failed (its crawl state is kept so it can be resumed)
+    // Expired credentials get their own status: the fix is new credentials, not a retry
+    const authExpired = error instanceof AuthExpiredError
+    await prisma.crawlSession.update({
+      where: { id: crawlSessionId },
+      data: {
+        status: authExpired ? 'auth_expired' : 'failed',
+        completedAt: new Date(),
+      },
+    }).catch(console.error)
 
     // Log the error
     await prisma.adminLog.create({
       data: {
         action: 'reindex',
         status: 'error',
+        message: authExpired
+          ? `Crawl stopped, sign-in expired. Upload a new storage state or check the login secrets, then resume session #${crawlSessionId}. ${(error as Error).message}`
+          : error instanceof Error ? error.message : 'Unknown error',
+        metadata: {
+          error: error instanceof Error ? error.stack : String(error),
+          crawlSessionId: crawlSessionId,
+        },
+      },
+    })
+
+    throw error
+  }
+}
+
+/**
+ * Rebuild pages, chunks and embeddings from a crawl session's archived snapshots
+ * Nothing is fetched: the session's pages are re-extracted, re-chunked and re-embedded with the current settings.
+ * Indexed pages the session did not reach are left out; pages missing from the archive keep their live copy.
+ * The result is built as a new index version and swapped live like a reindex; progress is reported in the same
+ * stages, with re-extraction from the archive as the crawl stage.
+ */
+export async function reprocessCrawlSession(
+  crawlSessionId: number,
+  options: { extractor?: ExtractorMode } = {},
+  onProgress?: ReindexProgressListener
+): Promise<ReprocessResult> {
+  console.log('\n========================================')
+  console.log(`Reprocessing crawl session #${crawlSessionId} from archive...`)
+  console.log('========================================\n')
+
+  const startTime = Date.now()
+  const counts: ReindexCounts = {
+    pagesCrawled: 0,
+    pagesFailed: 0,
+    pagesSkipped: 0,
+    maxPages: 0,
+    chunksCreated: 0,
+    embeddingsGenerated: 0,
+    chunksStored: 0,
+  }
+  const reportProgress = async (stage: ReindexStage) => {
+    await onProgress?.({ crawlSessionId, stage, percent: getReindexPercent(stage, counts), counts: { ...counts } })
+  }
+
+  try {
+    // Step 1: Find the archived pages of the session
+    console.log('Step 1: Loading archived pages...')
+    const steps = await prisma.navigationStep.findMany({
+      where: { crawlSessionId, scraped: true, contentHash: { not: null } },
+      orderBy: { visitedAt: 'asc' },
+      select: { url: true, contentHash: true, canonicalUrl: true },
+    })
+    // Visits that resolved to the same page share its URL; the first snapshot of each page is used
+    const archivedPages = new Map<string, string>()
+    for (const step of steps) {
+      const url = step.canonicalUrl ?? step.url
+      if (!archivedPages.has(url)) archivedPages.set(url, step.contentHash!)
+    }
+    if (archivedPages.size === 0) {
+      throw new Error(`Crawl session ${crawlSessionId} has no archived pages`)
+    }
+    console.log(`✓ Found ${archivedPages.size} archived pages\n`)
+    counts.maxPages = archivedPages.size
+    await reportProgress('crawl')
+
+    // Step 2: Re-extract every page from its snapshot
+    console.log('Step 2: Re-extracting pages...')
+    const pages: ScrapedPage[] = []
+    const missingUrls: string[] = []
+    const aliases = await loadPageAliases(crawlSessionId)
+    for (const [url, contentHash] of archivedPages) {
+      const page = await rebuildArchivedPage(url, contentHash, options.extractor)
+      if (page) {
+        pages.push({ ...page, aliases: aliases.get(url) ?? [] })
+        counts.pagesCrawled++
+      } else {
+        console.log(`  ✗ Not in archive or too little content: ${url}`)
+        missingUrls.push(url)
+        counts.pagesFailed++
+      }
+      await reportProgress('crawl')
+    }
+    console.log(`✓ Rebuilt ${pages.length} pages (${missingUrls.length} missing)\n`)
+
+    if (pages.length === 0) {
+      throw new Error(`None of the ${archivedPages.size} pages of crawl session ${crawlSessionId} could be rebuilt`)
+    }
+
+    // Step 3: Chunk content
+    console.log('Step 3: Chunking content...')
+    await reportProgress('chunk')
+    const chunkedPages = chunkPages(pages)
+    printChunkingStats(chunkedPages)
+    counts.chunksCreated = chunkedPages.reduce((sum, page) => sum + page.chunks.length, 0)
+
+    // Step 4: Generate embeddings
+    console.log('Step 4: Generating embeddings...')
+    const { embeddings, hits: embeddingCacheHits, misses: embeddingCacheMisses } = await embedChunkedPages(
+      chunkedPages,
+      async embedded => {
+        counts.embeddingsGenerated = embedded
+        await reportProgress('embed')
+      }
+    )
+
+    // Steps 5-6: Build a new index version from the rebuilt pages
+    // Pages missing from the archive keep their live copy; live pages outside the session are left out
+    console.log('Steps 5-6: Building a new index version...')
+    const pagesRemoved = await prisma.page.count({
+      where: { source: 'crawl', indexVersion: { status: 'live' }, url: { notIn: [...archivedPages.keys()] } },
+    })
+    await reportProgress('store')
+    const indexVersionId = await createIndexVersion(crawlSessionId)
+    let chunksStored: number
+    try {
+      await copyLivePages(indexVersionId, missingUrls.map(url => ({ url })))
+      ;({ chunksStored } = await writeChunkedPages(
+        indexVersionId,
+        pages,
+        chunkedPages,
+        embeddings,
+        'crawl',
+        async stored => {
+          counts.chunksStored = stored
+          await reportProgress('store')
+        }
+      ))
+
+      // Step 7: Swap the new version live
+      console.log('Step 7: Swapping the new index version live...')
+      await prisma.$transaction(tx => swapLiveVersion(tx, indexVersionId))
+    } catch (error) {
+      await discardIndexVersion(indexVersionId).catch(console.error)
+      throw error
+    }
+    await pruneIndexVersions()
+    console.log(`✓ Index version #${indexVersionId} is live\n`)
+
+    const result: ReprocessResult = {
+      crawlSessionId,
+      pagesReprocessed: pages.length,
+      pagesMissing: missingUrls.length,
+      pagesRemoved,
+      chunksCreated: chunksStored,
+      embeddingsGenerated: embeddings.length,
+      embeddingCacheHits,
+      embeddingCacheMisses,
+      duration: Date.now() - startTime,
+      indexVersionId,
+    }
+
+    // Step 8: Log the reprocess action
+    await prisma.adminLog.create({
+      data: {
+        action: 'reprocess',
+        status: 'success',
+        message: `Reprocessed ${pages.length} pages from crawl session #${crawlSessionId} into ${chunksStored} chunks (${missingUrls.length} missing from archive)`,
+        metadata: { ...result, missingUrls },
+      },
+    })
+
+    console.log('\n========================================')
+    console.log('✓ Reprocessing completed successfully!')
+    console.log('========================================')
+    console.log(`Pages reprocessed: ${pages.length} (${missingUrls.length} missing, ${pagesRemoved} removed)`)
+    console.log(`Chunks created: ${chunksStored}`)
+    console.log(`Duration: ${(result.duration / 1000).toFixed(2)}s\n`)
+
+    return result
+  } catch (error) {
+    console.error('Error during reprocessing:', error)
+
+    await prisma.adminLog.create({
+      data: {
+        action: 'reprocess',
+        status: 'error',
         message: error instanceof Error ? error.message : 'Unknown error',
         metadata: {
           error: error instanceof Error ? error.stack : String(error),
-          crawlSessionId: crawlSession?.id,
+          crawlSessionId,
         },
       },
     })
@@ -238,10 +694,11 @@ export async function getReindexStatus(): Promise<{
     orderBy: { createdAt: 'desc' },
   })
 
-  const totalPages = await prisma.page.count()
-  const totalChunks = await prisma.chunk.count()
+  // Counts cover what search sees: the live version plus uploads
+  const totalPages = await prisma.page.count({ where: LIVE_PAGE_FILTER })
+  const totalChunks = await prisma.chunk.count({ where: { page: LIVE_PAGE_FILTER } })
   const chunksWithEmbeddings = await prisma.chunk.count({
-    where: { embedding: { not: null } },
+    where: { embedding: { not: null }, page: LIVE_PAGE_FILTER },
   })
 
   return {
@@ -252,3 +709,75 @@ export async function getReindexStatus(): Promise<{
     totalEmbeddings: chunksWithEmbeddings,
   }
 }
+
+/**
+ * Index an HR-provided document (Markdown, HTML or plain text) outside the crawl
+ * The original file is kept and served at the page URL; uploading the same file name again replaces it
+ */
+export async function ingestUploadedDocument(fileName: string, body: string): Promise<UploadResult> {
+  const format = getUploadFormat(fileName)
+  if (!format) {
+    throw new Error(`Unsupported file type: ${fileName}`)
+  }
+
+  console.log(`Indexing uploaded document ${fileName}...`)
+  const page = parseUploadedDocument(fileName, body, format)
+
+  if (!page.content) {
+    throw new Error(`${fileName} has no text content`)
+  }
+
+  // Different file names can share a slug; only the same file name replaces an upload
+  const existing = await prisma.page.findFirst({
+    where: { url: page.url, source: 'upload' },
+    select: { id: true, document: { select: { fileName: true } } },
+  })
+  if (existing?.document && existing.document.fileName !== fileName) {
+    throw new UploadNameConflictError(fileName, existing.document.fileName, page.url)
+  }
+
+  // Embed before touching the previous version, so a failed re-upload keeps it
+  const chunkedPages = chunkPages([page])
+  const { embeddings } = await embedChunkedPages(chunkedPages)
+
+  // Uploads belong to no index version, so they show up in search right away and survive every swap
+  await prisma.$transaction(
+    async tx => {
+      // The previous version goes with its chunks and stored file (cascade)
+      if (existing) {
+        await tx.page.delete({ where: { id: existing.id } })
+      }
+      const pageIds = await insertChunkedPages(tx, null, [page], chunkedPages, embeddings, 'upload')
+      await tx.uploadedDocument.create({
+        data: {
+          page: { connect: { id: pageIds[0] } },
+          fileName,
+          format,
+          body,
+        },
+      })
+    },
+    { timeout: STORE_TRANSACTION_TIMEOUT_MS }
+  )
+  const chunksStored = embeddings.length
+
+  const result: UploadResult = {
+    url: page.url,
+    title: page.title,
+    chunksCreated: chunksStored,
+    embeddingsGenerated: embeddings.length,
+    replaced: existing !== null,
+  }
+
+  await prisma.adminLog.create({
+    data: {
+      action: 'upload',
+      status: 'success',
+      message: `${result.replaced ? 'Replaced' : 'Indexed'} uploaded document ${fileName} as ${chunksStored} chunks`,
+      metadata: { ...result, fileName },
+    },
+  })
+
+  console.log(`✓ Indexed ${fileName} at ${page.url} (${chunksStored} chunks)`)
+  return result
+}
@@ -0,0 +1,93 @@
+import type { ElementHandle, Page } from 'playwright'
+import { matchesAnyRule, InteractionRule } from './crawl-config'
+
+// Bounds so a page full of toggles cannot stall the crawl
+const SCRAPER_INTERACTION_TIMEOUT = parseInt(process.env.SCRAPER_INTERACTION_TIMEOUT || '2000', 10)
+const MAX_CLICKS_PER_RULE = 50
+
+/**
+ * Rules that apply to a URL, in configured order
+ */
+export function getInteractionRules(url: string, rules: InteractionRule[]): InteractionRule[] {
+  return rules.filter(rule => matchesAnyRule(url, [rule.urlPattern]))
+}
+
+/**
+ * Check if clicking an element would navigate away from the page being captured
+ */
+async function isNavigatingLink(handle: ElementHandle): Promise<boolean> {
+  return handle.evaluate(el => {
+    const href = el instanceof HTMLAnchorElement ? el.getAttribute('href') : null
+    return Boolean(href && !href.startsWith('#') && !href.startsWith('javascript:'))
+  })
+}
+
+/**
+ * Click visible matches of a rule (only the first one for click_first)
+ */
+async function runClickRule(page: Page, rule: InteractionRule): Promise<number> {
+  // Handles are taken up front: clicking changes attributes like aria-expanded, which would shift a live locator
+  const handles = await page.$$(rule.selector)
+  let clicked = 0
+
+  for (const handle of handles.slice(0, MAX_CLICKS_PER_RULE)) {
+    if (!(await handle.isVisible()) || (await isNavigatingLink(handle))) continue
+
+    const ok = await handle.click({ timeout: SCRAPER_INTERACTION_TIMEOUT }).then(() => true, () => false)
+    if (!ok) continue
+    clicked++
+
+    if (rule.action === 'click_first') {
+      await handle.waitForElementState('hidden', { timeout: SCRAPER_INTERACTION_TIMEOUT }).catch(() => {})
+      break
+    }
+  }
+
+  return clicked
+}
+
+/**
+ * Unhide matches without clicking them (inactive tab panels, closed <details>)
+ */
+async function runRevealRule(page: Page, rule: InteractionRule): Promise<number> {
+  return page.$$eval(rule.selector, elements => {
+    let revealed = 0
+    for (const el of elements) {
+      const hidden =
+        el.hasAttribute('hidden') ||
+        el.getAttribute('aria-hidden') === 'true' ||
+        (el instanceof HTMLDetailsElement && !el.open) ||
+        (el instanceof HTMLElement && el.style.display === 'none')
+      if (!hidden) continue
+
+      el.removeAttribute('hidden')
+      if (el.getAttribute('aria-hidden') === 'true') el.setAttribute('aria-hidden', 'false')
+      if (el instanceof HTMLDetailsElement) el.open = true
+      if (el instanceof HTMLElement && el.style.display === 'none') el.style.display = ''
+      revealed++
+    }
+    return revealed
+  })
+}
+
+/**
+ * Run the interaction rules that match a URL on its loaded page
+ * Returns how many interactions ran; a failing rule is logged and skipped
+ */
+export async function runInteractions(page: Page, url: string, rules: InteractionRule[]): Promise<number> {
+  let interactions = 0
+
+  for (const rule of getInteractionRules(url, rules)) {
+    try {
+      const count = rule.action === 'reveal' ? await runRevealRule(page, rule) : await runClickRule(page, rule)
+      if (count > 0) {
+        console.log(`  Interaction ${rule.action} "${rule.selector}": ${count}`)
+      }
+      interactions += count
+    } catch (error) {
+      console.log(`  Interaction ${rule.action} "${rule.selector}" failed: ${error instanceof Error ? error.message : 'unknown'}`)
+    }
+  }
+
+  return interactions
+}
@@ -0,0 +1,177 @@
+import type { Job } from '@prisma/client'
+import prisma from './prisma'
+import {
+  reindexContent,
+  reprocessCrawlSession,
+  resumeReindex,
+  ReindexProgress,
+  ReindexProgressListener,
+  ReindexResult,
+  ReprocessResult,
+} from './indexer'
+import type { CrawlOptions, ExtractorMode } from './scraper'
+
+export type JobType = 'reindex' | 'resume' | 'reprocess'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'paused' | 'cancelled'
+
+// Jobs that have not finished; only one job builds an index version at a time
+const ACTIVE_JOB_STATUSES: JobStatus[] = ['queued', 'running']
+
+// Progress is written at most this often (stage changes are written right away)
+const PROGRESS_WRITE_INTERVAL_MS = 1000
+
+/**
+ * The reindex, resume or reprocess job that has not finished yet, if any
+ */
+export async function findActiveJob(): Promise<Job | null> {
+  return prisma.job.findFirst({
+    where: { status: { in: ACTIVE_JOB_STATUSES } },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+export function serializeJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    stage: job.stage,
+    percent: job.percent,
+    counts: job.counts,
+    crawlSessionId: job.crawlSessionId,
+    result: job.result,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() || null,
+    completedAt: job.completedAt?.toISOString() || null,
+  }
+}
+
+/**
+ * Write reindex progress to a job, throttled so a fast stage does not write on every chunk
+ */
+function createProgressWriter(jobId: number): ReindexProgressListener {
+  let lastStage: string | null = null
+  let lastWriteAt = 0
+
+  return async (progress: ReindexProgress) => {
+    const now = Date.now()
+    if (progress.stage === lastStage && now - lastWriteAt < PROGRESS_WRITE_INTERVAL_MS) return
+    lastStage = progress.stage
+    lastWriteAt = now
+
+    await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        stage: progress.stage,
+        percent: progress.percent,
+        counts: { ...progress.counts },
+        crawlSessionId: progress.crawlSessionId,
+      },
+    })
+  }
+}
+
+/**
+ * Run a job to the end without blocking the caller; its outcome is stored on the job
+ */
+function runJob(
+  jobId: number,
+  run: (onProgress: ReindexProgressListener) => Promise<ReindexResult | (ReprocessResult & { status: 'completed' })>
+): void {
+  const execute = async () => {
+    await prisma.job.update({
+      where: { id: jobId },
+      data: { status: 'running', startedAt: new Date() },
+    })
+
+    try {
+      const result = await run(createProgressWriter(jobId))
+      await prisma.job.update({
+        where: { id: jobId },
+        data: {
+          status: result.status,
+          ...(result.status === 'completed' ? { percent: 100 } : {}),
+          // The indexer only fails without throwing when the crawl produced no pages
+          ...(result.status === 'failed' ? { error: 'No pages could be crawled' } : {}),
+          result: { ...result },
+          crawlSessionId: result.crawlSessionId,
+          completedAt: new Date(),
+        },
+      })
+      console.log(`✓ Job #${jobId} finished (${result.status})`)
+    } catch (error) {
+      console.error(`✗ Job #${jobId} failed:`, error)
+      await prisma.job.update({
+        where: { id: jobId },
+        data: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date(),
+        },
+      })
+    }
+  }
+
+  execute().catch(error => console.error(`Error updating job #${jobId}:`, error))
+}
+
+/**
+ * Start a reindex in the background
+ */
+export async function startReindexJob(options: Pick<CrawlOptions, 'fetchMode' | 'extractor'> = {}): Promise<Job> {
+  const job = await prisma.job.create({
+    data: { type: 'reindex', status: 'queued', params: { ...options } },
+  })
+
+  runJob(job.id, onProgress => reindexContent(options, onProgress))
+  return job
+}
+
+/**
+ * Resume a crawl session in the background
+ */
+export async function startResumeJob(crawlSessionId: number): Promise<Job> {
+  const job = await prisma.job.create({
+    data: { type: 'resume', status: 'queued', crawlSessionId, params: { crawlSessionId } },
+  })
+
+  runJob(job.id, onProgress => resumeReindex(crawlSessionId, onProgress))
+  return job
+}
+
+/**
+ * Rebuild the index from a crawl session's archive in the background
+ */
+export async function startReprocessJob(crawlSessionId: number, options: { extractor?: ExtractorMode } = {}): Promise<Job> {
+  const job = await prisma.job.create({
+    data: { type: 'reprocess', status: 'queued', crawlSessionId, params: { crawlSessionId, ...options } },
+  })
+
+  runJob(job.id, async onProgress => ({
+    ...(await reprocessCrawlSession(crawlSessionId, options, onProgress)),
+    status: 'completed' as const,
+  }))
+  return job
+}
+
+/**
+ * Mark jobs left unfinished by a previous process as failed
+ * Call once at startup, before this process starts any job
+ */
+export async function markInterruptedJobs(): Promise<number> {
+  const { count } = await prisma.job.updateMany({
+    where: { status: { in: ACTIVE_JOB_STATUSES } },
+    data: {
+      status: 'failed',
+      error: 'The server restarted before the job finished; resume or reprocess its crawl session to continue',
+      completedAt: new Date(),
+    },
+  })
+
+  if (count > 0) {
+    console.log(`✓ Marked ${count} unfinished job(s) as failed`)
+  }
+  return count
+}
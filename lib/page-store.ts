@@ -0,0 +1,270 @@
+import type { Prisma } from '@prisma/client'
+import prisma from './prisma'
+import { embeddingToString } from './embeddings'
+import type { ChunkedContent } from './chunking'
+import type { ScrapedPage } from './scraper'
+
+export type PageSource = 'crawl' | 'upload'
+
+// Chunks written per transaction (pages are grouped until a batch reaches this many chunks)
+const STORE_BATCH_CHUNKS = parseInt(process.env.INDEX_STORE_BATCH_CHUNKS || '500', 10)
+
+// Pages written per transaction, so pages with few or no chunks do not pile into one huge insert
+const STORE_BATCH_PAGES = Math.max(1, parseInt(process.env.INDEX_STORE_BATCH_PAGES || '200', 10))
+
+// Batch transactions running at once; each holds a pool connection
+const STORE_CONCURRENCY = Math.max(1, parseInt(process.env.INDEX_STORE_CONCURRENCY || '4', 10))
+
+// A batch carries up to STORE_BATCH_CHUNKS embeddings of ~30 KB each
+export const STORE_TRANSACTION_TIMEOUT_MS = 60 * 1000
+
+export interface StoreResult {
+  pageIds: number[] // In the order of the pages
+  chunksStored: number
+}
+
+export interface PageCopy {
+  pageId: number // Stored page to copy
+  chunkCount: number
+  overrides: Partial<Pick<Prisma.PageCreateManyInput, 'etag' | 'lastModified' | 'aliases' | 'crawledAt'>>
+}
+
+interface StoreBatch {
+  pageIndexes: number[]
+  chunkCount: number
+}
+
+/**
+ * Group consecutive pages into batches of about STORE_BATCH_CHUNKS chunks and at most STORE_BATCH_PAGES pages;
+ * a larger page gets a batch of its own
+ */
+function planStoreBatches(chunkCounts: number[]): StoreBatch[] {
+  const batches: StoreBatch[] = []
+  let current: StoreBatch = { pageIndexes: [], chunkCount: 0 }
+
+  chunkCounts.forEach((chunkCount, index) => {
+    const full =
+      current.pageIndexes.length >= STORE_BATCH_PAGES || current.chunkCount + chunkCount > STORE_BATCH_CHUNKS
+    if (current.pageIndexes.length > 0 && full) {
+      batches.push(current)
+      current = { pageIndexes: [], chunkCount: 0 }
+    }
+    current.pageIndexes.push(index)
+    current.chunkCount += chunkCount
+  })
+  if (current.pageIndexes.length > 0) {
+    batches.push(current)
+  }
+  return batches
+}
+
+/**
+ * Run store batches STORE_CONCURRENCY at a time; after the first failure no new batch starts, and it is rethrown
+ */
+async function runStoreBatches(batches: StoreBatch[], storeBatch: (batch: StoreBatch) => Promise<void>): Promise<void> {
+  let nextBatch = 0
+  let failed = false
+
+  // Workers take the next batch until none are left or one has failed
+  const worker = async () => {
+    while (!failed && nextBatch < batches.length) {
+      const batch = batches[nextBatch++]
+      try {
+        await storeBatch(batch)
+      } catch (error) {
+        failed = true
+        throw error
+      }
+    }
+  }
+  const outcomes = await Promise.allSettled(
+    Array.from({ length: Math.min(STORE_CONCURRENCY, batches.length) }, () => worker())
+  )
+
+  const failure = outcomes.find(outcome => outcome.status === 'rejected')
+  if (failure) {
+    throw (failure as PromiseRejectedResult).reason
+  }
+}
+
+/**
+ * Insert pages with their embedded chunks inside a transaction, returning the page IDs in the order of the pages
+ */
+export async function insertChunkedPages(
+  tx: Prisma.TransactionClient,
+  indexVersionId: number | null,
+  pages: ScrapedPage[],
+  chunkedPages: ChunkedContent[],
+  embeddings: number[][],
+  source: PageSource
+): Promise<number[]> {
+  const created = await tx.page.createManyAndReturn({
+    data: pages.map(page => ({
+      indexVersionId,
+      url: page.url,
+      title: page.title,
+      contentHash: page.contentHash,
+      etag: page.etag,
+      lastModified: page.lastModified,
+      tables: page.tables?.map(table => ({ ...table })),
+      aliases: page.aliases ?? [],
+      source,
+      crawledAt: new Date(),
+    })),
+    select: { id: true },
+  })
+  // One INSERT assigns IDs in the order of its rows, so sorted IDs line up with the pages even when URLs repeat
+  const ids = created.map(page => page.id).sort((a, b) => a - b)
+
+  let embeddingIndex = 0
+  const chunkRows = chunkedPages.flatMap((chunkedPage, position) =>
+    chunkedPage.chunks.map(chunk => ({
+      pageId: ids[position],
+      indexVersionId,
+      text: chunk.text,
+      embedding: embeddingToString(embeddings[embeddingIndex++]),
+      category: chunk.category,
+      sourceUrl: chunk.sourceUrl,
+      pageNumber: chunk.pageNumber,
+    }))
+  )
+  for (let i = 0; i < chunkRows.length; i += STORE_BATCH_CHUNKS) {
+    await tx.chunk.createMany({ data: chunkRows.slice(i, i + STORE_BATCH_CHUNKS) })
+  }
+  return ids
+}
+
+/**
+ * Store crawled pages and their embedded chunks in an index version being built (chunkedPages[i] belongs to pages[i],
+ * embeddings follow the chunks in order)
+ * Each batch of pages is written with its chunks in one transaction, a few batches at a time. A failure leaves the
+ * batches already committed in the version: the caller rolls back with discardIndexVersion, and a version still
+ * building when the server stops is discarded at the next start. Search never sees it either way.
+ */
+export async function writeChunkedPages(
+  indexVersionId: number,
+  pages: ScrapedPage[],
+  chunkedPages: ChunkedContent[],
+  embeddings: number[][],
+  source: PageSource,
+  onStored?: (chunksStored: number) => Promise<void>
+): Promise<StoreResult> {
+  const totalChunks = chunkedPages.reduce((sum, page) => sum + page.chunks.length, 0)
+  if (embeddings.length !== totalChunks) {
+    throw new Error(`Got ${embeddings.length} embeddings for ${totalChunks} chunks`)
+  }
+
+  // Offset of each page's first embedding, computed once
+  const embeddingOffsets: number[] = []
+  let offset = 0
+  for (const chunkedPage of chunkedPages) {
+    embeddingOffsets.push(offset)
+    offset += chunkedPage.chunks.length
+  }
+
+  const batches = planStoreBatches(chunkedPages.map(chunkedPage => chunkedPage.chunks.length))
+  console.log(
+    `Storing ${pages.length} pages and ${totalChunks} chunks in ${batches.length} batch(es), ${STORE_CONCURRENCY} at a time...`
+  )
+
+  const pageIds: number[] = new Array(pages.length)
+  let chunksStored = 0
+
+  const storeBatch = async (batch: StoreBatch) => {
+    const first = batch.pageIndexes[0]
+    const last = batch.pageIndexes[batch.pageIndexes.length - 1]
+    const createdIds = await prisma.$transaction(
+      tx =>
+        insertChunkedPages(
+          tx,
+          indexVersionId,
+          pages.slice(first, last + 1),
+          chunkedPages.slice(first, last + 1),
+          embeddings.slice(embeddingOffsets[first], embeddingOffsets[first] + batch.chunkCount),
+          source
+        ),
+      { timeout: STORE_TRANSACTION_TIMEOUT_MS }
+    )
+
+    batch.pageIndexes.forEach((pageIndex, position) => {
+      pageIds[pageIndex] = createdIds[position]
+    })
+    chunksStored += batch.chunkCount
+    await onStored?.(chunksStored)
+  }
+
+  try {
+    await runStoreBatches(batches, storeBatch)
+  } catch (error) {
+    console.error(`✗ Storing failed after ${chunksStored} of ${totalChunks} chunks in index version #${indexVersionId}`)
+    throw error
+  }
+
+  console.log(`✓ Stored ${pages.length} pages and ${chunksStored} chunks with embeddings\n`)
+  return { pageIds, chunksStored }
+}
+
+/**
+ * Copy stored pages with their chunks and embeddings into an index version being built
+ * Pages are loaded and written batch by batch like writeChunkedPages, so memory stays bounded by the batch size.
+ * Returns the number of pages copied; a failure is rolled back the same way, by discarding the version.
+ */
+export async function copyStoredPages(indexVersionId: number, copies: PageCopy[]): Promise<number> {
+  const batches = planStoreBatches(copies.map(copy => copy.chunkCount))
+  let copied = 0
+
+  await runStoreBatches(batches, async batch => {
+    const batchCopies = batch.pageIndexes.map(index => copies[index])
+    const sources = await prisma.page.findMany({
+      where: { id: { in: batchCopies.map(copy => copy.pageId) } },
+      include: { chunks: { orderBy: { id: 'asc' } } },
+    })
+    const sourcesById = new Map(sources.map(page => [page.id, page]))
+    const found = batchCopies.filter(copy => sourcesById.has(copy.pageId))
+
+    await prisma.$transaction(
+      async tx => {
+        const created = await tx.page.createManyAndReturn({
+          data: found.map(copy => {
+            const page = sourcesById.get(copy.pageId)!
+            return {
+              indexVersionId,
+              url: page.url,
+              title: page.title,
+              contentHash: page.contentHash,
+              etag: page.etag,
+              lastModified: page.lastModified,
+              tables: page.tables ?? undefined,
+              aliases: page.aliases,
+              source: page.source,
+              crawledAt: page.crawledAt,
+              ...copy.overrides,
+            }
+          }),
+          select: { id: true },
+        })
+        // Same ordering as insertChunkedPages: sorted IDs line up with the rows
+        const ids = created.map(page => page.id).sort((a, b) => a - b)
+
+        const chunkRows = found.flatMap((copy, position) =>
+          sourcesById.get(copy.pageId)!.chunks.map(chunk => ({
+            pageId: ids[position],
+            indexVersionId,
+            text: chunk.text,
+            embedding: chunk.embedding,
+            category: chunk.category,
+            sourceUrl: chunk.sourceUrl,
+            pageNumber: chunk.pageNumber,
+          }))
+        )
+        for (let i = 0; i < chunkRows.length; i += STORE_BATCH_CHUNKS) {
+          await tx.chunk.createMany({ data: chunkRows.slice(i, i + STORE_BATCH_CHUNKS) })
+        }
+      },
+      { timeout: STORE_TRANSACTION_TIMEOUT_MS }
+    )
+    copied += found.length
+  })
+
+  return copied
+}
@@ -0,0 +1,133 @@
+import { extractText, getDocumentProxy } from 'unpdf'
+import { PageFetcher } from './fetcher'
+import { computeBufferHash, getConditionalHeaders, toUnchangedPage, KnownPage } from './change-detection'
+import { archivePdf } from './html-archive'
+import type { ScrapedPage, PdfPageText } from './scraper'
+
+// Larger files are almost always scanned archives, not plan documents
+const SCRAPER_MAX_PDF_BYTES = parseInt(process.env.SCRAPER_MAX_PDF_BYTES || String(20 * 1024 * 1024), 10)
+
+export interface PdfScrapeResult {
+  page: ScrapedPage | null
+  httpStatus: number
+  failure: string | null // Why page is null
+}
+
+/**
+ * Check if a URL points at a PDF document
+ */
+export function isPdfUrl(url: string): boolean {
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf')
+  } catch {
+    return false
+  }
+}
+
+/**
+ * File name used as the title of a PDF page (e.g. "SPD.pdf")
+ */
+function getPdfFileName(url: string): string {
+  const pathname = new URL(url).pathname
+  const fileName = pathname.substring(pathname.lastIndexOf('/') + 1)
+  try {
+    return decodeURIComponent(fileName)
+  } catch {
+    return fileName
+  }
+}
+
+/**
+ * Extract text from a PDF, one entry per page (1-based page numbers)
+ */
+export async function extractPdfPages(data: Buffer): Promise<PdfPageText[]> {
+  const pdf = await getDocumentProxy(new Uint8Array(data))
+  const { text } = await extractText(pdf, { mergePages: false })
+
+  return text
+    .map((pageText, index) => ({ pageNumber: index + 1, text: pageText.trim() }))
+    .filter(page => page.text.length > 0)
+}
+
+/**
+ * Download a PDF and turn it into a ScrapedPage with per-page text, along with the HTTP status of the download
+ * Known PDFs are requested conditionally and skip text extraction when unchanged
+ */
+export async function scrapePdf(url: string, fetcher: PageFetcher, known?: KnownPage): Promise<PdfScrapeResult> {
+  console.log(`Downloading PDF: ${url}`)
+
+  const response = await fetcher.fetchResource(url, getConditionalHeaders(known) ?? undefined)
+  const httpStatus = response.status
+  const fail = (failure: string): PdfScrapeResult => {
+    console.log(`  ${failure}: ${url}`)
+    return { page: null, httpStatus, failure }
+  }
+
+  if (known && httpStatus === 304) {
+    console.log(`  Not modified (HTTP 304): ${url}`)
+    return { page: toUnchangedPage(known, response.etag, response.lastModified), httpStatus, failure: null }
+  }
+
+  if (httpStatus < 200 || httpStatus >= 300) {
+    return fail(`HTTP ${httpStatus}`)
+  }
+
+  if (response.contentType && !response.contentType.includes('pdf') && !response.contentType.includes('octet-stream')) {
+    return fail(`Not a PDF (${response.contentType})`)
+  }
+
+  if (response.body.length > SCRAPER_MAX_PDF_BYTES) {
+    return fail(`PDF too large (${response.body.length} bytes)`)
+  }
+
+  const contentHash = computeBufferHash(response.body)
+  await archivePdf(contentHash, response.body)
+
+  if (known && known.contentHash === contentHash) {
+    console.log(`  Content unchanged (hash match): ${url}`)
+    return { page: toUnchangedPage(known, response.etag, response.lastModified), httpStatus, failure: null }
+  }
+
+  const page = await parsePdf(url, response.body)
+  if (!page) {
+    return { page: null, httpStatus, failure: 'Too little text in PDF (possibly scanned)' }
+  }
+
+  return {
+    page: {
+      ...page,
+      url: known?.url ?? url,
+      etag: response.etag,
+      lastModified: response.lastModified,
+      changeStatus: known ? 'changed' : 'new',
+    },
+    httpStatus,
+    failure: null,
+  }
+}
+
+/**
+ * Turn downloaded PDF bytes into a ScrapedPage (null when it has too little text)
+ */
+export async function parsePdf(url: string, data: Buffer): Promise<ScrapedPage | null> {
+  const pdfPages = await extractPdfPages(data)
+  const content = pdfPages.map(page => page.text).join('\n\n')
+
+  if (content.length < 100) {
+    console.log(`  Insufficient text in PDF ${url} (${content.length} chars, possibly scanned)`)
+    return null
+  }
+
+  const title = getPdfFileName(url)
+  console.log(`✓ Extracted ${title}: ${pdfPages.length} pages with text (${content.length} chars)`)
+
+  return {
+    url,
+    title,
+    content,
+    headings: [],
+    pdfPages,
+    contentHash: computeBufferHash(data),
+    changeStatus: 'new',
+  }
+}
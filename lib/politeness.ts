@@ -0,0 +1,141 @@
+import { PageFetcher } from './fetcher'
+
+export interface PolitenessOptions {
+  maxConcurrency: number
+  requestsPerMinute: number
+  burst: number
+  crawlDelays: Map<string, number> // robots.txt crawl-delay in seconds, keyed by host
+}
+
+/**
+ * Shared crawl budget: per-host token buckets plus an adaptive worker count
+ */
+export interface Politeness {
+  getConcurrency(): number
+  acquire(url: string): Promise<void>
+  recordResponse(url: string, status: number | null): void
+}
+
+interface HostBucket {
+  tokens: number
+  lastRefill: number
+  intervalMs: number // Time to earn one token
+  baseIntervalMs: number
+  successStreak: number
+}
+
+// Responses that mean "slow down"
+const THROTTLE_STATUSES = new Set([429, 503])
+
+// Consecutive successes needed before speeding back up
+const RECOVERY_STREAK = 10
+
+// Never wait longer than this between two requests to one host
+const MAX_INTERVAL_MS = 60000
+
+/**
+ * Get the host a URL belongs to (buckets are per host)
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).host
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Create the politeness controller for one crawl
+ * Each host's base interval honors its robots.txt crawl-delay when it is slower than requestsPerMinute
+ */
+export function createPoliteness(options: PolitenessOptions): Politeness {
+  const requestIntervalMs = 60000 / Math.max(options.requestsPerMinute, 1)
+  const burst = Math.max(options.burst, 1)
+  const buckets = new Map<string, HostBucket>()
+  let concurrency = Math.max(options.maxConcurrency, 1)
+
+  const getBucket = (host: string): HostBucket => {
+    let bucket = buckets.get(host)
+    if (!bucket) {
+      const baseIntervalMs = Math.max(requestIntervalMs, (options.crawlDelays.get(host) ?? 0) * 1000)
+      bucket = { tokens: burst, lastRefill: Date.now(), intervalMs: baseIntervalMs, baseIntervalMs, successStreak: 0 }
+      buckets.set(host, bucket)
+    }
+    return bucket
+  }
+
+  const refill = (bucket: HostBucket) => {
+    const now = Date.now()
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.lastRefill) / bucket.intervalMs)
+    bucket.lastRefill = now
+  }
+
+  return {
+    getConcurrency: () => concurrency,
+
+    acquire: async (url) => {
+      const bucket = getBucket(getHost(url))
+
+      refill(bucket)
+      while (bucket.tokens < 1) {
+        const waitMs = Math.ceil((1 - bucket.tokens) * bucket.intervalMs)
+        await new Promise(resolve => setTimeout(resolve, waitMs))
+        refill(bucket)
+      }
+      bucket.tokens -= 1
+    },
+
+    recordResponse: (url, status) => {
+      const host = getHost(url)
+      const bucket = getBucket(host)
+
+      if (status !== null && THROTTLE_STATUSES.has(status)) {
+        bucket.intervalMs = Math.min(bucket.intervalMs * 2, MAX_INTERVAL_MS)
+        bucket.tokens = 0
+        bucket.successStreak = 0
+        concurrency = Math.max(1, Math.floor(concurrency / 2))
+        console.log(
+          `  HTTP ${status} from ${host}: slowing to 1 request per ${Math.round(bucket.intervalMs)}ms, ${concurrency} worker(s)`
+        )
+        return
+      }
+
+      bucket.successStreak++
+      if (bucket.successStreak >= RECOVERY_STREAK) {
+        bucket.successStreak = 0
+        if (bucket.intervalMs > bucket.baseIntervalMs || concurrency < options.maxConcurrency) {
+          bucket.intervalMs = Math.max(bucket.baseIntervalMs, bucket.intervalMs / 2)
+          concurrency = Math.min(options.maxConcurrency, concurrency + 1)
+          console.log(`  ${host} recovered: 1 request per ${Math.round(bucket.intervalMs)}ms, ${concurrency} worker(s)`)
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Wrap a fetcher so every request waits for its host's token and reports its status
+ */
+export function withPoliteness(fetcher: PageFetcher, politeness: Politeness): PageFetcher {
+  // Archived pages put no load on the site
+  if (fetcher.mode === 'replay') {
+    return fetcher
+  }
+
+  return {
+    mode: fetcher.mode,
+    fetchPage: async (url) => {
+      await politeness.acquire(url)
+      const snapshot = await fetcher.fetchPage(url)
+      politeness.recordResponse(url, snapshot.status)
+      return snapshot
+    },
+    fetchResource: async (url, headers) => {
+      await politeness.acquire(url)
+      const resource = await fetcher.fetchResource(url, headers)
+      politeness.recordResponse(url, resource.status)
+      return resource
+    },
+    close: () => fetcher.close(),
+  }
+}
@@ -0,0 +1,152 @@
+import { z } from 'zod'
+import type { ReindexSchedule } from '@prisma/client'
+import prisma from './prisma'
+import { getNextCronRun } from './cron'
+import { findActiveJob, startReindexJob } from './jobs'
+
+// How often the scheduler looks for due schedules; runs start within this delay of their time
+const SCHEDULER_INTERVAL_MS = 30 * 1000
+
+export type ScheduledRunStatus = 'started' | 'skipped' | 'failed'
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null
+
+export const ReindexScheduleInputSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200),
+  cron: z
+    .string()
+    .trim()
+    .superRefine((cron, ctx) => {
+      // Also rejects valid expressions that never fire, e.g. Feb 31
+      try {
+        getNextCronRun(cron, new Date())
+      } catch (error) {
+        ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : 'Invalid cron expression' })
+      }
+    }),
+  enabled: z.boolean().default(true),
+})
+
+export type ReindexScheduleInput = z.infer<typeof ReindexScheduleInputSchema>
+
+/**
+ * Create or replace a schedule; its next run is counted from now
+ */
+export async function saveReindexSchedule(input: ReindexScheduleInput, id?: number): Promise<ReindexSchedule> {
+  const data = {
+    ...input,
+    name: input.name.trim(),
+    nextRunAt: input.enabled ? getNextCronRun(input.cron, new Date()) : null,
+  }
+
+  return id === undefined
+    ? prisma.reindexSchedule.create({ data })
+    : prisma.reindexSchedule.update({ where: { id }, data })
+}
+
+export function serializeReindexSchedule(schedule: ReindexSchedule) {
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    cron: schedule.cron,
+    enabled: schedule.enabled,
+    nextRunAt: schedule.nextRunAt?.toISOString() ?? null,
+    lastRunAt: schedule.lastRunAt?.toISOString() ?? null,
+    lastRunStatus: schedule.lastRunStatus as ScheduledRunStatus | null,
+    lastJobId: schedule.lastJobId,
+    createdAt: schedule.createdAt.toISOString(),
+    updatedAt: schedule.updatedAt.toISOString(),
+  }
+}
+
+/**
+ * The enabled schedule that fires next, if any
+ */
+export async function findNextScheduledReindex(): Promise<ReindexSchedule | null> {
+  return prisma.reindexSchedule.findFirst({
+    where: { enabled: true, nextRunAt: { not: null } },
+    orderBy: { nextRunAt: 'asc' },
+  })
+}
+
+/**
+ * Start the reindex of a schedule that fired, unless a job is already running, and log the run
+ */
+async function fireSchedule(schedule: ReindexSchedule, scheduledFor: Date): Promise<void> {
+  let status: ScheduledRunStatus
+  let jobId: number | null = null
+  let message: string
+
+  try {
+    const activeJob = await findActiveJob()
+    if (activeJob) {
+      status = 'skipped'
+      message = `Skipped scheduled reindex "${schedule.name}" (${schedule.cron}): job #${activeJob.id} (${activeJob.type}) is still running`
+    } else {
+      const job = await startReindexJob()
+      status = 'started'
+      jobId = job.id
+      message = `Started job #${job.id} from schedule "${schedule.name}" (${schedule.cron})`
+    }
+  } catch (error) {
+    status = 'failed'
+    message = `Scheduled reindex "${schedule.name}" (${schedule.cron}) could not start: ${
+      error instanceof Error ? error.message : 'Unknown error'
+    }`
+  }
+
+  await prisma.reindexSchedule.update({
+    where: { id: schedule.id },
+    data: { lastRunStatus: status, ...(jobId !== null && { lastJobId: jobId }) },
+  })
+  await prisma.adminLog.create({
+    data: {
+      action: 'scheduled_reindex',
+      status: status === 'started' ? 'success' : status === 'skipped' ? 'skipped' : 'error',
+      message,
+      metadata: {
+        scheduleId: schedule.id,
+        scheduleName: schedule.name,
+        cron: schedule.cron,
+        scheduledFor: scheduledFor.toISOString(),
+        jobId,
+      },
+    },
+  })
+  console.log(`${status === 'failed' ? '✗' : '✓'} ${message}`)
+}
+
+/**
+ * Fire every enabled schedule whose next run has come
+ * A run missed while the server was down fires once on the next check.
+ */
+export async function runDueSchedules(now: Date = new Date()): Promise<void> {
+  const due = await prisma.reindexSchedule.findMany({
+    where: { enabled: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: 'asc' },
+  })
+
+  for (const schedule of due) {
+    // Claim the run by moving nextRunAt first, so an overlapping check (or a second server) does not fire it again
+    const { count } = await prisma.reindexSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+      data: { nextRunAt: getNextCronRun(schedule.cron, now), lastRunAt: now },
+    })
+    if (count === 0) continue
+
+    await fireSchedule(schedule, schedule.nextRunAt!)
+  }
+}
+
+/**
+ * Check for due schedules in the background for as long as the server runs
+ * Call once at startup, after interrupted jobs have been cleaned up
+ */
+export function startReindexScheduler(): void {
+  if (schedulerTimer) return
+
+  schedulerTimer = setInterval(() => {
+    runDueSchedules().catch(error => console.error('Error running reindex schedules:', error))
+  }, SCHEDULER_INTERVAL_MS)
+  console.log(`✓ Reindex scheduler started (checking every ${SCHEDULER_INTERVAL_MS / 1000}s)`)
+}
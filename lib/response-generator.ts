@@ -1,5 +1,5 @@
 import { OpenAI } from 'openai'
-import { SearchResult } from './search'
+import { SearchResult, formatSourceLabel } from './search'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -72,7 +72,7 @@ export async function generateResponse(
 
     // Format context from search results
     const contextItems = searchResults
-      .map((result, idx) => `[${idx + 1}] ${result.text}\n(Source: ${result.pageTitle})`)
+      .map((result, idx) => `[${idx + 1}] ${result.text}\n(Source: ${formatSourceLabel(result)})`)
       .join('\n\n')
 
     const context = `BENEFITS DATABASE INFORMATION:\n${contextItems}`
@@ -134,7 +134,7 @@ function extractCitations(responseText: string, searchResults: SearchResult[]):
       const result = searchResults[resultIndex]
       citations.push({
         number: num,
-        text: result.pageTitle,
+        text: formatSourceLabel(result),
         url: result.sourceUrl,
         category: result.category,
       })
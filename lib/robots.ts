@@ -0,0 +1,265 @@
+import { gunzipSync } from 'zlib'
+import { ArchiveMissError, PageFetcher } from './fetcher'
+import { AuthExpiredError } from './auth'
+
+export interface RobotsRule {
+  allow: boolean
+  path: string
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[]
+  crawlDelaySeconds: number | null
+  sitemaps: string[]
+}
+
+export interface SitemapEntry {
+  url: string
+  lastmod: Date | null
+}
+
+// Product token matched against robots.txt User-agent groups
+const ROBOTS_USER_AGENT = (process.env.SCRAPER_ROBOTS_USER_AGENT || 'AexpBenefitsBot').toLowerCase()
+
+// Sitemap index files can nest; keep the walk bounded
+const MAX_SITEMAP_FILES = 20
+
+const ALLOW_ALL: RobotsRules = { rules: [], crawlDelaySeconds: null, sitemaps: [] }
+const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, path: '/' }], crawlDelaySeconds: null, sitemaps: [] }
+
+/**
+ * Check if a User-agent line names our crawler
+ * Per RFC 9309 the product token is compared case-insensitively; a version or comment after it is ignored
+ * ("AexpBenefitsBot/1.0"), and an empty or different token ("bot") does not match.
+ */
+function matchesRobotsUserAgent(agent: string): boolean {
+  const productToken = agent.match(/^[a-z_-]+/)?.[0]
+  return productToken === ROBOTS_USER_AGENT
+}
+
+/**
+ * Parse robots.txt into the rule group that applies to our user agent
+ * Uses the group naming our product token, falling back to "*"
+ */
+export function parseRobotsTxt(text: string): RobotsRules {
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelaySeconds: number | null }> = []
+  const sitemaps: string[] = []
+  let current: (typeof groups)[number] | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value)
+      continue
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelaySeconds: null }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+
+    lastWasAgent = false
+    if (!current) continue
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', path: value })
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value)
+      if (!isNaN(delay) && delay >= 0) current.crawlDelaySeconds = delay
+    }
+  }
+
+  const specific = groups
+    .filter(group => group.agents.some(matchesRobotsUserAgent))
+  const wildcard = groups.filter(group => group.agents.includes('*'))
+  const matched = specific.length > 0 ? specific : wildcard
+
+  return {
+    rules: matched.flatMap(group => group.rules),
+    crawlDelaySeconds: matched.reduce<number | null>(
+      (delay, group) => group.crawlDelaySeconds ?? delay,
+      null
+    ),
+    sitemaps,
+  }
+}
+
+/**
+ * Convert a robots.txt path pattern (with * and $) to a RegExp
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+/**
+ * Check a URL against robots rules (longest match wins, Allow wins ties)
+ */
+export function isAllowedByRobots(url: string, robots: RobotsRules): boolean {
+  let target: string
+  try {
+    const urlObj = new URL(url)
+    target = urlObj.pathname + urlObj.search
+  } catch {
+    return false
+  }
+
+  let best: RobotsRule | null = null
+  for (const rule of robots.rules) {
+    if (!patternToRegExp(rule.path).test(target)) continue
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule
+    }
+  }
+
+  return best ? best.allow : true
+}
+
+/**
+ * Fetch and parse robots.txt for an origin
+ * Follows RFC 9309: a missing file allows everything, an unreachable one disallows everything
+ */
+export async function loadRobotsRules(origin: string, fetcher: PageFetcher): Promise<RobotsRules> {
+  const robotsUrl = new URL('/robots.txt', origin).toString()
+
+  try {
+    const response = await fetcher.fetchResource(robotsUrl)
+
+    if (response.status >= 200 && response.status < 300) {
+      const robots = parseRobotsTxt(response.body.toString('utf-8'))
+      console.log(
+        `Loaded robots.txt: ${robots.rules.length} rules, crawl-delay ${robots.crawlDelaySeconds ?? 'none'}, ${robots.sitemaps.length} sitemaps`
+      )
+      return robots
+    }
+
+    if (response.status >= 400 && response.status < 500) {
+      console.log(`No robots.txt at ${robotsUrl} (HTTP ${response.status}), allowing all paths`)
+      return ALLOW_ALL
+    }
+
+    console.warn(`robots.txt unavailable at ${robotsUrl} (HTTP ${response.status}), disallowing all paths`)
+    return DISALLOW_ALL
+  } catch (error) {
+    if (error instanceof AuthExpiredError) {
+      throw error
+    }
+    if (error instanceof ArchiveMissError) {
+      console.log(`No archived robots.txt for ${origin}, allowing all paths`)
+      return ALLOW_ALL
+    }
+    console.warn(`Error fetching ${robotsUrl}, disallowing all paths:`, error instanceof Error ? error.message : error)
+    return DISALLOW_ALL
+  }
+}
+
+/**
+ * Decode the XML entities that can appear inside <loc>
+ */
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Read the text of a child tag inside an XML block
+ */
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i'))
+  return match ? decodeXmlEntities(match[1].replace(/<!\[CDATA\[|\]\]>/g, '').trim()) : null
+}
+
+/**
+ * Parse a sitemap or sitemap index document
+ */
+export function parseSitemap(xml: string): { entries: SitemapEntry[]; sitemaps: string[] } {
+  const entries: SitemapEntry[] = []
+  const sitemaps: string[] = []
+
+  for (const match of xml.matchAll(/<url>([\s\S]*?)<\/url>/gi)) {
+    const loc = readTag(match[1], 'loc')
+    if (!loc) continue
+    const lastmodText = readTag(match[1], 'lastmod')
+    const lastmod = lastmodText ? new Date(lastmodText) : null
+    entries.push({ url: loc, lastmod: lastmod && !isNaN(lastmod.getTime()) ? lastmod : null })
+  }
+
+  for (const match of xml.matchAll(/<sitemap>([\s\S]*?)<\/sitemap>/gi)) {
+    const loc = readTag(match[1], 'loc')
+    if (loc) sitemaps.push(loc)
+  }
+
+  return { entries, sitemaps }
+}
+
+/**
+ * Collect page entries from the site's sitemaps
+ * Uses the Sitemap lines from robots.txt, or /sitemap.xml when there are none
+ */
+export async function loadSitemapEntries(
+  origin: string,
+  robots: RobotsRules,
+  fetcher: PageFetcher
+): Promise<SitemapEntry[]> {
+  const pending = robots.sitemaps.length > 0
+    ? [...robots.sitemaps]
+    : [new URL('/sitemap.xml', origin).toString()]
+  const seen = new Set<string>()
+  const entries: SitemapEntry[] = []
+
+  while (pending.length > 0 && seen.size < MAX_SITEMAP_FILES) {
+    const sitemapUrl = pending.shift()!
+    if (seen.has(sitemapUrl)) continue
+    seen.add(sitemapUrl)
+
+    try {
+      const response = await fetcher.fetchResource(sitemapUrl)
+      if (response.status < 200 || response.status >= 300) {
+        console.log(`  Sitemap ${sitemapUrl} returned HTTP ${response.status}, skipping`)
+        continue
+      }
+
+      const xml = sitemapUrl.endsWith('.gz')
+        ? gunzipSync(response.body).toString('utf-8')
+        : response.body.toString('utf-8')
+      const parsed = parseSitemap(xml)
+
+      entries.push(...parsed.entries)
+      pending.push(...parsed.sitemaps)
+    } catch (error) {
+      if (error instanceof AuthExpiredError) {
+        throw error
+      }
+      console.warn(`  Error reading sitemap ${sitemapUrl}:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  console.log(`Loaded ${entries.length} sitemap entries from ${seen.size} sitemap file(s)`)
+  return entries
+}
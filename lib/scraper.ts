@@ -1,13 +1,74 @@
-import { chromium, Browser, Page, BrowserContext } from 'playwright'
 import { OpenAI } from 'openai'
+import {
+  createPageFetcher,
+  ArchiveMissError,
+  PageLoadError,
+  FetchedPage,
+  FetchMode,
+  DiscoveredLink,
+  FailureArtifacts,
+  PageFetcher,
+} from './fetcher'
+import { loadRobotsRules, loadSitemapEntries, isAllowedByRobots, RobotsRules, SitemapEntry } from './robots'
+import { isPdfUrl, parsePdf, scrapePdf } from './pdf'
+import { createPoliteness, withPoliteness } from './politeness'
+import { extractContentFromDom, extractTables, compareExtractions, ExtractionComparison, PageTable } from './dom-extractor'
+import { computeContentHash, getConditionalHeaders, toUnchangedPage, ChangeStatus, KnownPage } from './change-detection'
+import { getDefaultCrawlScope, matchesAnyRule, CrawlScope } from './crawl-config'
+import { normalizeUrl, resolveCanonicalUrl } from './canonical-url'
+import { AuthExpiredError } from './auth'
+import { saveFailureArtifacts } from './crawl-artifacts'
+import { archiveHtmlSnapshot, readArchivedHtmlSnapshot, readArchivedPdf } from './html-archive'
+
+export type { ChangeStatus, KnownPage } from './change-detection'
+
+export { closeBrowser } from './fetcher'
+export type { FetchMode } from './fetcher'
+export type { ExtractionComparison, PageTable } from './dom-extractor'
+export type { CrawlScope } from './crawl-config'
+
+export interface PdfPageText {
+  pageNumber: number
+  text: string
+}
 
 export interface ScrapedPage {
   url: string
   title: string
   content: string
   headings: string[]
+  pdfPages?: PdfPageText[] // Set for PDF documents, one entry per page
+  tables?: PageTable[] // Data tables read from the HTML, independent of the content extractor
+  aliases?: string[] // Other URLs that resolved to this page, filled in by the indexer
+  contentHash?: string
+  etag?: string | null
+  lastModified?: string | null
+  changeStatus?: ChangeStatus
 }
 
+// 'compare' runs both extractors, keeps the LLM result and records how they differ
+export type ExtractorMode = 'llm' | 'dom' | 'compare'
+
+// Which extractor produced a page's content
+export type ExtractorName = 'llm' | 'dom' | 'dom_fallback'
+
+export type SkipReason =
+  | 'invalid_url'
+  | 'off_domain'
+  | 'excluded_by_rule'
+  | 'not_included_by_rule'
+  | 'disallowed_by_robots'
+
+// Why a visited page produced no content
+export type FailureReason =
+  | 'timeout'
+  | 'insufficient_content'
+  | 'llm_error' // LLM extraction failed and the DOM fallback found too little
+  | 'blocked' // HTTP 401, 403 or 429
+  | 'http_error'
+  | 'archive_miss'
+  | 'error'
+
 export interface NavigationStep {
   url: string
   depth: number
@@ -15,101 +76,82 @@ export interface NavigationStep {
   linkText: string | null
   visitedAt: Date
   scraped: boolean
+  skipReason: SkipReason | null
+  sitemapLastmod: Date | null
+  extractor: ExtractorName | null
+  extractionComparison: ExtractionComparison | null
+  httpStatus: number | null
+  retryCount: number
+  failureReason: FailureReason | null
+  failureMessage: string | null
+  screenshotPath: string | null // Stored failure artifacts (see crawl-artifacts)
+  htmlPath: string | null
+  contentHash: string | null // Archived snapshot of the scraped page (see html-archive)
+  interactionCount: number | null // Interactions run before extraction (null when the page was not rendered)
+  canonicalUrl: string | null // URL of the page the visit was stored as (differs from url for aliases)
 }
 
 export interface CrawlResult {
-  pages: ScrapedPage[]
-  navigationSteps: NavigationStep[]
+  pages: ScrapedPage[] // Includes pages carried over from a resumed crawl
+  navigationSteps: NavigationStep[] // Steps recorded by this run only
+  stopped: boolean // Stopped early by shouldStop; the last reported progress is where to resume
 }
 
-// Environment configuration
-const AMEX_BENEFITS_URL = process.env.AMEX_BENEFITS_URL || 'https://www.americanexpress.com/en-us/colleagues/benefits'
-const PLAYWRIGHT_HEADLESS = process.env.PLAYWRIGHT_HEADLESS !== 'false'
-const SCRAPER_TIMEOUT = parseInt(process.env.SCRAPER_TIMEOUT || '60000', 10)
-const SCRAPER_MAX_RETRIES = parseInt(process.env.SCRAPER_MAX_RETRIES || '3', 10)
-const MAX_PAGES_TO_CRAWL = parseInt(process.env.MAX_PAGES_TO_CRAWL || '20', 10)
-
-// Rate limiting configuration
-const RATE_LIMIT_MIN_MS = 2000 // Minimum 2 seconds
-const RATE_LIMIT_MAX_MS = 5000 // Maximum 5 seconds
-
-// User-Agent rotation for politeness
-const USER_AGENTS = [
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.1 Safari/605.1.15',
-]
-
-// Singleton browser instance
-let browserInstance: Browser | null = null
-let browserContext: BrowserContext | null = null
-
-// OpenAI client for content extraction
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+export interface QueueItem {
+  url: string
+  depth: number
+  parentUrl: string | null
+  linkText: string | null
+  sitemapLastmod: Date | null
+}
 
 /**
- * Get or create a browser instance (singleton pattern)
+ * Where a crawl stands, enough to continue it in another process
  */
-async function getBrowser(): Promise<Browser> {
-  if (!browserInstance) {
-    console.log('Launching Chromium browser...')
-    browserInstance = await chromium.launch({
-      headless: PLAYWRIGHT_HEADLESS,
-      args: ['--disable-blink-features=AutomationControlled'],
-    })
-
-    // Cleanup on process exit
-    process.on('exit', () => {
-      if (browserInstance) {
-        browserInstance.close().catch(console.error)
-      }
-    })
-
-    process.on('SIGINT', () => {
-      if (browserInstance) {
-        browserInstance.close().catch(console.error)
-      }
-      process.exit(0)
-    })
-  }
-  return browserInstance
+export interface CrawlResumeState {
+  frontier: QueueItem[] // Pages still to visit, in BFS order
+  visitedUrls: string[] // Normalized URLs whose results are committed
+  skippedUrls: string[]
+  pages: ScrapedPage[]
 }
 
 /**
- * Get or create a browser context
+ * Progress reported after each committed page
+ * Pages and steps are the ones added since the previous report
  */
-async function getBrowserContext(): Promise<BrowserContext> {
-  if (!browserContext) {
-    const browser = await getBrowser()
-    const userAgent = USER_AGENTS[Math.floor(Math.random() * USER_AGENTS.length)]
-
-    browserContext = await browser.newContext({
-      userAgent,
-      viewport: { width: 1920, height: 1080 },
-      locale: 'en-US',
-    })
-  }
-  return browserContext
+export interface CrawlProgress {
+  frontier: QueueItem[]
+  visitedUrls: string[]
+  skippedUrls: string[]
+  pages: ScrapedPage[]
+  navigationSteps: NavigationStep[]
 }
 
-/**
- * Close browser and cleanup resources
- */
-export async function closeBrowser(): Promise<void> {
-  if (browserContext) {
-    await browserContext.close()
-    browserContext = null
-  }
-  if (browserInstance) {
-    await browserInstance.close()
-    browserInstance = null
-  }
-  console.log('Browser closed')
+export interface CrawlOptions {
+  fetchMode?: FetchMode
+  knownPages?: KnownPage[]
+  concurrency?: number
+  extractor?: ExtractorMode
+  scope?: CrawlScope // Defaults to the environment-based scope
+  resumeFrom?: CrawlResumeState
+  onProgress?: (progress: CrawlProgress) => Promise<void>
+  shouldStop?: () => Promise<boolean> // Checked between pages (e.g. the session was paused or cancelled)
 }
 
+// Environment configuration
+const SCRAPER_MAX_RETRIES = parseInt(process.env.SCRAPER_MAX_RETRIES || '3', 10)
+const SCRAPER_EXTRACTOR = (process.env.SCRAPER_EXTRACTOR || 'llm') as ExtractorMode
+
+// Concurrency and per-host rate limiting configuration
+const SCRAPER_CONCURRENCY = parseInt(process.env.SCRAPER_CONCURRENCY || '3', 10)
+const SCRAPER_HOST_REQUESTS_PER_MINUTE = parseInt(process.env.SCRAPER_HOST_REQUESTS_PER_MINUTE || '20', 10)
+const SCRAPER_HOST_BURST = parseInt(process.env.SCRAPER_HOST_BURST || '2', 10)
+
+// OpenAI client for content extraction
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY,
+})
+
 /**
  * Extract clean content using OpenAI GPT-4o-mini (with aggressive HTML reduction)
  */
@@ -175,346 +217,713 @@ Return a JSON object with:
   }
 }
 
+interface ExtractionResult {
+  title: string
+  content: string
+  extractor: ExtractorName
+  comparison: ExtractionComparison | null
+}
+
 /**
- * Scrape a single benefits page with retry logic
+ * Extract page content with the selected extractor
+ * The DOM extractor takes over when the LLM call fails
  */
-async function scrapePage(url: string, retryCount = 0): Promise<ScrapedPage | null> {
-  let page: Page | null = null
+async function extractContent(html: string, url: string, mode: ExtractorMode): Promise<ExtractionResult> {
+  if (mode === 'dom') {
+    const extracted = extractContentFromDom(html)
+    console.log(`  DOM extractor: ${extracted.title} (${extracted.content.length} chars)`)
+    return { ...extracted, extractor: 'dom', comparison: null }
+  }
 
+  let extracted: { title: string; content: string }
   try {
-    console.log(`Scraping: ${url} (attempt ${retryCount + 1}/${SCRAPER_MAX_RETRIES})`)
+    extracted = await extractContentWithLLM(html, url)
+  } catch {
+    const fallback = extractContentFromDom(html)
+    console.log(`  LLM extraction failed, using DOM extractor: ${fallback.title} (${fallback.content.length} chars)`)
+    return { ...fallback, extractor: 'dom_fallback', comparison: null }
+  }
 
-    const context = await getBrowserContext()
-    page = await context.newPage()
+  if (mode === 'compare') {
+    const comparison = compareExtractions(extracted.content, extractContentFromDom(html).content)
+    console.log(
+      `  Extractor comparison: LLM ${comparison.llmChars} chars, DOM ${comparison.domChars} chars, overlap ${(comparison.overlap * 100).toFixed(1)}%`
+    )
+    return { ...extracted, extractor: 'llm', comparison }
+  }
 
-    // Set page timeout explicitly
-    page.setDefaultTimeout(SCRAPER_TIMEOUT)
+  return { ...extracted, extractor: 'llm', comparison: null }
+}
 
-    // Navigate to the page with timeout
-    await page.goto(url, {
-      waitUntil: 'domcontentloaded', // Changed from 'networkidle' for faster loading
-      timeout: SCRAPER_TIMEOUT,
-    })
+interface ScrapeFailure {
+  reason: FailureReason
+  message: string
+  artifacts: FailureArtifacts | null
+}
 
-    // Wait a bit for JS to render
-    await page.waitForTimeout(2000)
-
-    // Handle common blocking dialogs (cookie consent, terms, etc.)
-    try {
-      // Look for "Agree", "Accept", "I Agree", "OK" buttons
-      const dialogSelectors = [
-        'button:has-text("Agree")',
-        'button:has-text("I Agree")',
-        'button:has-text("Accept")',
-        'button:has-text("Continue")',
-        'button:has-text("OK")',
-        '[data-testid="agree-button"]',
-        '[aria-label*="agree" i]',
-        '[aria-label*="accept" i]',
-      ]
-
-      for (const selector of dialogSelectors) {
-        const button = page.locator(selector).first()
-        if (await button.isVisible({ timeout: 1000 }).catch(() => false)) {
-          console.log(`  Found dialog button: ${selector}, clicking...`)
-          await button.click()
-          await page.waitForTimeout(1000) // Wait for dialog to close
-          break
-        }
-      }
-    } catch (dialogError) {
-      // Ignore dialog handling errors - page might not have dialogs
-      console.log(`  No dialogs found or error clicking: ${dialogError instanceof Error ? dialogError.message : 'unknown'}`)
-    }
+interface ScrapeOutcome {
+  scrapedPage: ScrapedPage | null
+  snapshot: FetchedPage | null // Rendered page, reused for link discovery
+  extraction: Pick<ExtractionResult, 'extractor' | 'comparison'> | null
+  httpStatus: number | null
+  retryCount: number // Retries used, 0 when the first attempt settled the page
+  failure: ScrapeFailure | null // Set whenever scrapedPage is null
+}
 
-    // Wait for main content to render after dialog handling
-    await page.waitForTimeout(1000)
+/**
+ * Failure reason for an HTTP error status
+ */
+function getHttpFailureReason(status: number): FailureReason {
+  return status === 401 || status === 403 || status === 429 ? 'blocked' : 'http_error'
+}
 
-    // Extract page title
-    const title = await page.title()
+/**
+ * Failure reason for an error thrown while loading a page
+ */
+function getErrorFailureReason(error: unknown): FailureReason {
+  if (error instanceof ArchiveMissError) return 'archive_miss'
+  if (error instanceof Error && error.name === 'TimeoutError') return 'timeout'
+  return 'error'
+}
 
-    // Extract all headings
-    const headings = await page.$$eval('h1, h2, h3, h4, h5, h6', (elements) =>
-      elements
-        .map(el => el.textContent?.trim())
-        .filter(text => text && text.length > 5)
-        .slice(0, 20)
-    ) as string[]
+/**
+ * Extract a rendered snapshot into a page (null when too little content was found)
+ */
+async function extractSnapshot(
+  url: string,
+  snapshot: FetchedPage,
+  contentHash: string,
+  extractor: ExtractorMode
+): Promise<{ page: ScrapedPage | null; extracted: ExtractionResult }> {
+  // Use GPT-4o-mini (or the DOM extractor) to extract clean content
+  const extracted = await extractContent(snapshot.html, url, extractor)
+
+  // Validate content
+  if (!extracted.content || extracted.content.length < 100) {
+    console.log(`  Insufficient content found for ${url} (${extracted.content?.length || 0} chars)`)
+    return { page: null, extracted }
+  }
+
+  const tables = extractTables(snapshot.html)
 
-    // Get the full HTML for LLM processing
-    const html = await page.content()
+  console.log(
+    `✓ Scraped ${url}: ${extracted.title} (${extracted.content.length} chars, ${snapshot.headings.length} headings, ${tables.length} tables)`
+  )
+
+  return {
+    page: {
+      url,
+      title: extracted.title || snapshot.title || 'Benefits Page',
+      content: extracted.content,
+      headings: snapshot.headings,
+      tables,
+      contentHash,
+      etag: snapshot.etag,
+      lastModified: snapshot.lastModified,
+      changeStatus: 'new',
+    },
+    extracted,
+  }
+}
+
+/**
+ * Scrape a single benefits page with retry logic
+ * Known pages are revalidated first and skip LLM extraction when unchanged
+ */
+async function scrapePage(
+  url: string,
+  fetcher: PageFetcher,
+  extractor: ExtractorMode,
+  known?: KnownPage,
+  retryCount = 0
+): Promise<ScrapeOutcome> {
+  let snapshot: FetchedPage | null = null
 
-    // Use GPT-4o-mini to extract clean content
-    const extracted = await extractContentWithLLM(html, url)
+  try {
+    console.log(`Scraping: ${url} (attempt ${retryCount + 1}/${SCRAPER_MAX_RETRIES})`)
 
-    // Validate content
-    if (!extracted.content || extracted.content.length < 100) {
-      console.log(`  Insufficient content found for ${url} (${extracted.content?.length || 0} chars)`)
-      await page.close()
-      return null
+    // PDFs are downloaded and parsed, not rendered
+    if (isPdfUrl(url)) {
+      const { page, httpStatus, failure } = await scrapePdf(url, fetcher, known)
+      return {
+        scrapedPage: page,
+        snapshot: null,
+        extraction: null,
+        httpStatus,
+        retryCount,
+        failure: failure
+          ? { reason: httpStatus >= 400 ? getHttpFailureReason(httpStatus) : 'error', message: failure, artifacts: null }
+          : null,
+      }
     }
 
-    console.log(`✓ Scraped ${url}: ${extracted.title} (${extracted.content.length} chars, ${headings.length} headings)`)
+    // Conditional request: a 304 means the page has not changed since the last crawl
+    const conditionalHeaders = getConditionalHeaders(known)
+    if (known && conditionalHeaders && fetcher.mode !== 'replay') {
+      const revalidation = await fetcher.fetchResource(url, conditionalHeaders)
+      if (revalidation.status === 304) {
+        console.log(`  Not modified (HTTP 304): ${url}`)
+        return {
+          scrapedPage: toUnchangedPage(known, revalidation.etag, revalidation.lastModified),
+          snapshot: null,
+          extraction: null,
+          httpStatus: 304,
+          retryCount,
+          failure: null,
+        }
+      }
+    }
 
-    await page.close()
+    snapshot = await fetcher.fetchPage(url)
+    const httpStatus = snapshot.status
+
+    // Throttling and server errors are worth retrying; other HTTP errors are not
+    if (httpStatus !== null && httpStatus >= 400) {
+      if (httpStatus === 429 || httpStatus >= 500) {
+        throw new Error(`HTTP ${httpStatus}`)
+      }
+      console.log(`  HTTP ${httpStatus} for ${url}, skipping`)
+      return {
+        scrapedPage: null,
+        snapshot: null,
+        extraction: null,
+        httpStatus,
+        retryCount,
+        failure: {
+          reason: getHttpFailureReason(httpStatus),
+          message: `HTTP ${httpStatus}`,
+          artifacts: { screenshot: null, html: snapshot.html },
+        },
+      }
+    }
+
+    const contentHash = computeContentHash(snapshot.html)
+    await archiveHtmlSnapshot(contentHash, snapshot)
+
+    if (known && known.contentHash === contentHash) {
+      console.log(`  Content unchanged (hash match): ${url}`)
+      return {
+        scrapedPage: toUnchangedPage(known, snapshot.etag, snapshot.lastModified),
+        snapshot,
+        extraction: null,
+        httpStatus,
+        retryCount,
+        failure: null,
+      }
+    }
+
+    const { page, extracted } = await extractSnapshot(url, snapshot, contentHash, extractor)
+    const extraction = { extractor: extracted.extractor, comparison: extracted.comparison }
+
+    if (!page) {
+      return {
+        scrapedPage: null,
+        snapshot,
+        extraction,
+        httpStatus,
+        retryCount,
+        failure: {
+          reason: extracted.extractor === 'dom_fallback' ? 'llm_error' : 'insufficient_content',
+          message: `Extracted ${extracted.content?.length || 0} chars (${extracted.extractor} extractor)`,
+          artifacts: { screenshot: null, html: snapshot.html },
+        },
+      }
+    }
 
     return {
-      url,
-      title: extracted.title || title || 'Benefits Page',
-      content: extracted.content,
-      headings,
+      scrapedPage: { ...page, url: known?.url ?? url, changeStatus: known ? 'changed' : 'new' },
+      snapshot,
+      extraction,
+      httpStatus,
+      retryCount,
+      failure: null,
     }
   } catch (error) {
     console.error(`Error scraping ${url}:`, error instanceof Error ? error.message : error)
 
-    // Capture screenshot on error for debugging
-    if (page) {
-      try {
-        const screenshotPath = `/tmp/scraper-error-${Date.now()}.png`
-        await page.screenshot({ path: screenshotPath, fullPage: true })
-        console.log(`  Screenshot saved to ${screenshotPath}`)
-      } catch (screenshotError) {
-        // Ignore screenshot errors
-      }
+    // Expired credentials stop the whole crawl; no other page will load either
+    if (error instanceof AuthExpiredError) {
+      throw error
     }
 
-    await page?.close()
+    // A missing archive entry will not appear on retry
+    const retryable = !(error instanceof ArchiveMissError)
 
     // Retry logic with exponential backoff
-    if (retryCount < SCRAPER_MAX_RETRIES - 1) {
+    if (retryable && retryCount < SCRAPER_MAX_RETRIES - 1) {
       const backoffMs = Math.pow(2, retryCount) * 1000
       console.log(`  Retrying in ${backoffMs}ms...`)
       await new Promise(resolve => setTimeout(resolve, backoffMs))
-      return scrapePage(url, retryCount + 1)
+      return scrapePage(url, fetcher, extractor, known, retryCount + 1)
     }
 
-    return null
+    const httpStatus = snapshot?.status ?? null
+    return {
+      scrapedPage: null,
+      snapshot: null,
+      extraction: null,
+      httpStatus,
+      retryCount,
+      failure: {
+        reason: httpStatus !== null && httpStatus >= 400 ? getHttpFailureReason(httpStatus) : getErrorFailureReason(error),
+        message: error instanceof Error ? error.message : String(error),
+        artifacts:
+          error instanceof PageLoadError ? error.artifacts : snapshot ? { screenshot: null, html: snapshot.html } : null,
+      },
+    }
   }
 }
 
 /**
- * Get random delay between requests (for rate limiting)
+ * Rebuild a page from its archived snapshot, without touching the source site
+ * Returns null when the snapshot is missing from the archive or yields too little content
  */
-function getRandomDelay(): number {
-  return Math.floor(Math.random() * (RATE_LIMIT_MAX_MS - RATE_LIMIT_MIN_MS) + RATE_LIMIT_MIN_MS)
-}
+export async function rebuildArchivedPage(
+  url: string,
+  contentHash: string,
+  extractor: ExtractorMode = SCRAPER_EXTRACTOR
+): Promise<ScrapedPage | null> {
+  if (isPdfUrl(url)) {
+    const data = await readArchivedPdf(contentHash)
+    return data ? parsePdf(url, data) : null
+  }
 
-/**
- * Normalize URL to avoid duplicates
- */
-function normalizeUrl(url: string): string {
-  try {
-    const urlObj = new URL(url)
-    // Remove trailing slash, fragments, and common tracking params
-    urlObj.hash = ''
-    urlObj.search = ''
-    let normalized = urlObj.toString()
-    if (normalized.endsWith('/')) {
-      normalized = normalized.slice(0, -1)
-    }
-    return normalized
-  } catch (e) {
-    return url
+  const snapshot = await readArchivedHtmlSnapshot(contentHash)
+  if (!snapshot) {
+    return null
   }
+
+  const { page } = await extractSnapshot(url, snapshot, contentHash, extractor)
+  return page
 }
 
 /**
- * Check if URL should be crawled (benefits-related pages only)
+ * Check if URL should be crawled under the crawl scope
+ * Returns the reason it is skipped, or null when it should be crawled
  */
-function shouldCrawlUrl(url: string, baseUrl: string): boolean {
+function getSkipReason(url: string, scope: CrawlScope, robotsByHost: Map<string, RobotsRules>): SkipReason | null {
   try {
     const urlObj = new URL(url)
-    const baseUrlObj = new URL(baseUrl)
 
-    // Must be same domain
-    if (urlObj.hostname !== baseUrlObj.hostname) {
-      return false
+    // Must be on an allowed host
+    const robots = robotsByHost.get(urlObj.host)
+    if (!scope.allowedHosts.includes(urlObj.hostname) || !robots) {
+      return 'off_domain'
     }
 
-    // Must contain benefits or colleagues in path
-    const path = urlObj.pathname.toLowerCase()
-    if (!path.includes('benefits') && !path.includes('colleagues')) {
-      return false
+    if (matchesAnyRule(url, scope.excludePatterns)) {
+      return 'excluded_by_rule'
     }
 
-    // Skip non-HTML resources
-    const skipExtensions = ['.pdf', '.jpg', '.png', '.gif', '.css', '.js', '.xml', '.zip']
-    if (skipExtensions.some(ext => path.endsWith(ext))) {
-      return false
+    // Plan documents often live outside the included sections, so PDFs on allowed hosts are kept
+    const included = isPdfUrl(url) || scope.includePatterns.length === 0 || matchesAnyRule(url, scope.includePatterns)
+    if (!included) {
+      return 'not_included_by_rule'
     }
 
-    return true
-  } catch (e) {
-    return false
+    if (!isAllowedByRobots(url, robots)) {
+      return 'disallowed_by_robots'
+    }
+
+    return null
+  } catch {
+    return 'invalid_url'
   }
 }
 
 /**
- * Discover links on a page
+ * Split the links on a fetched page into crawlable and skipped ones
  */
-async function discoverLinks(page: Page, _currentUrl: string, baseUrl: string): Promise<Array<{ url: string; text: string }>> {
-  try {
-    const links = await page.$$eval('a[href]', (elements, baseUrl) => {
-      return elements
-        .map(el => {
-          const href = el.getAttribute('href')
-          const text = el.textContent?.trim() || ''
-          if (!href) return null
-
-          try {
-            // Convert relative URLs to absolute
-            const absoluteUrl = new URL(href, baseUrl)
-            return { url: absoluteUrl.toString(), text }
-          } catch (e) {
-            return null
-          }
-        })
-        .filter(link => link !== null) as Array<{ url: string; text: string }>
-    }, baseUrl)
+function discoverLinks(
+  snapshot: FetchedPage,
+  scope: CrawlScope,
+  robotsByHost: Map<string, RobotsRules>
+): { links: DiscoveredLink[]; skipped: Array<DiscoveredLink & { reason: SkipReason }> } {
+  const links: DiscoveredLink[] = []
+  const skipped: Array<DiscoveredLink & { reason: SkipReason }> = []
+
+  for (const link of snapshot.links) {
+    const reason = getSkipReason(link.url, scope, robotsByHost)
+    if (reason) {
+      skipped.push({ ...link, reason })
+    } else {
+      links.push(link)
+    }
+  }
+
+  return { links, skipped }
+}
+
+interface PageVisit {
+  visitedAt: Date
+  scrapedPage: ScrapedPage | null
+  extraction: ScrapeOutcome['extraction']
+  httpStatus: number | null
+  retryCount: number
+  interactionCount: number | null
+  failure: Pick<NavigationStep, 'failureReason' | 'failureMessage' | 'screenshotPath' | 'htmlPath'> | null
+  links: DiscoveredLink[]
+  skipped: Array<DiscoveredLink & { reason: SkipReason }>
+}
+
+/**
+ * Scrape one queued page and discover its links (runs inside a crawl worker)
+ * The page is loaded once; its snapshot serves both extraction and link discovery
+ */
+async function visitPage(
+  current: QueueItem,
+  fetcher: PageFetcher,
+  scope: CrawlScope,
+  robotsByHost: Map<string, RobotsRules>,
+  extractor: ExtractorMode,
+  known: KnownPage | undefined
+): Promise<PageVisit> {
+  const visitedAt = new Date()
+
+  // Try to scrape the page
+  const outcome = await scrapePage(current.url, fetcher, extractor, known)
+
+  // Canonical tags and redirects decide which page this is; an unchanged page keeps its indexed URL
+  let scrapedPage = outcome.scrapedPage
+  if (scrapedPage && outcome.snapshot && scrapedPage.changeStatus !== 'unchanged') {
+    scrapedPage = { ...scrapedPage, url: resolveCanonicalUrl(outcome.snapshot, scope) }
+  }
+
+  const visit: PageVisit = {
+    visitedAt,
+    scrapedPage,
+    extraction: outcome.extraction,
+    httpStatus: outcome.httpStatus,
+    retryCount: outcome.retryCount,
+    interactionCount: outcome.snapshot?.interactions ?? null,
+    failure: null,
+    links: [],
+    skipped: [],
+  }
+
+  // Keep what the failed page looked like, so the crawl can be diagnosed from the admin page
+  if (outcome.failure) {
+    const stored = outcome.failure.artifacts
+      ? await saveFailureArtifacts(current.url, outcome.failure.artifacts)
+      : { screenshotPath: null, htmlPath: null }
+    visit.failure = {
+      failureReason: outcome.failure.reason,
+      failureMessage: outcome.failure.message.substring(0, 1000),
+      ...stored,
+    }
+  }
 
-    // Filter to only benefits-related links
-    return links.filter(link => shouldCrawlUrl(link.url, baseUrl))
+  // PDFs have no links to follow, and links below the depth limit are never queued
+  if (isPdfUrl(current.url) || (scope.maxDepth !== null && current.depth >= scope.maxDepth)) {
+    return visit
+  }
+
+  // A 304 skips rendering, so the page is only loaded here when its links are needed
+  let snapshot = outcome.snapshot
+  if (!snapshot && outcome.scrapedPage?.changeStatus !== 'unchanged') {
+    return visit
+  }
+
+  try {
+    snapshot = snapshot ?? await fetcher.fetchPage(current.url)
+    const discovered = discoverLinks(snapshot, scope, robotsByHost)
+    visit.links = discovered.links
+    visit.skipped = discovered.skipped
   } catch (error) {
-    console.error('Error discovering links:', error)
-    return []
+    if (error instanceof AuthExpiredError) {
+      throw error
+    }
+    console.error('  Error discovering links:', error instanceof Error ? error.message : error)
   }
+
+  return visit
 }
 
 /**
  * Crawl benefits pages using BFS (Breadth-First Search)
+ * Seeds: the scope's seed URLs first, then sitemap URLs (most recently modified first)
+ *
+ * Pages are visited by a pool of workers but their results are applied in queue order,
+ * so depths, parent links and the page budget cutoff match a serial crawl.
+ *
+ * After every committed page the frontier is reported through onProgress; passing that state
+ * back as resumeFrom continues the crawl where it stopped (in-flight pages are visited again).
+ * When shouldStop returns true the crawl stops before the next page, lets in-flight visits
+ * settle and closes the browser.
  */
-export async function crawlBenefitsPages(): Promise<CrawlResult> {
-  console.log('Starting intelligent benefits crawl with BFS...')
-  console.log(`Max pages to crawl: ${MAX_PAGES_TO_CRAWL}`)
-
-  const pages: ScrapedPage[] = []
+export async function crawlBenefitsPages(options: CrawlOptions = {}): Promise<CrawlResult> {
+  const extractor = options.extractor ?? SCRAPER_EXTRACTOR
+  const scope = options.scope ?? getDefaultCrawlScope()
+  const baseFetcher = createPageFetcher(options.fetchMode, { interactionRules: scope.interactionRules })
+  const maxPages = scope.maxPages
+  let fetcher = baseFetcher
+
+  // Page identity: only allowlisted query parameters tell two URLs apart
+  const normalize = (url: string) => normalizeUrl(url, scope.queryAllowlist)
+
+  console.log(`Starting intelligent benefits crawl with BFS (config: ${scope.name})...`)
+  console.log(
+    `Max pages to crawl: ${maxPages}, max depth: ${scope.maxDepth ?? 'unlimited'} (fetch mode: ${baseFetcher.mode}, extractor: ${extractor})`
+  )
+
+  const resume = options.resumeFrom
+  const pages: ScrapedPage[] = [...(resume?.pages ?? [])]
   const navigationSteps: NavigationStep[] = []
-  const visited = new Set<string>()
-  const queue: Array<{ url: string; depth: number; parentUrl: string | null; linkText: string | null }> = []
+  const visited = new Set<string>(resume?.visitedUrls)
+  const skippedUrls = new Set<string>(resume?.skippedUrls)
+  const queue: QueueItem[] = [...(resume?.frontier ?? [])]
+  const knownPages = new Map(
+    (options.knownPages ?? []).flatMap(page => [page.url, ...page.aliases].map(url => [normalize(url), page] as const))
+  )
+
+  // Record a URL the crawler decided not to visit (once per crawl)
+  const recordSkip = (item: QueueItem, reason: SkipReason) => {
+    const normalized = normalize(item.url)
+    if (visited.has(normalized) || skippedUrls.has(normalized)) return
+    skippedUrls.add(normalized)
+    navigationSteps.push({
+      url: item.url,
+      depth: item.depth,
+      parentUrl: item.parentUrl,
+      linkText: item.linkText,
+      visitedAt: new Date(),
+      scraped: false,
+      skipReason: reason,
+      sitemapLastmod: item.sitemapLastmod,
+      extractor: null,
+      extractionComparison: null,
+      httpStatus: null,
+      retryCount: 0,
+      failureReason: null,
+      failureMessage: null,
+      screenshotPath: null,
+      htmlPath: null,
+      contentHash: null,
+      interactionCount: null,
+      canonicalUrl: null,
+    })
+  }
+
+  // Visits in flight, oldest first
+  const inFlight: Array<{ item: QueueItem; visit: Promise<PageVisit> }> = []
+
+  // Pages and steps already handed to onProgress
+  let reportedPages = pages.length
+  let reportedSteps = 0
+
+  const reportProgress = async () => {
+    if (!options.onProgress) return
+    const inFlightUrls = new Set(inFlight.map(entry => normalize(entry.item.url)))
+    await options.onProgress({
+      frontier: [...inFlight.map(entry => entry.item), ...queue],
+      visitedUrls: [...visited].filter(url => !inFlightUrls.has(url)),
+      skippedUrls: [...skippedUrls],
+      pages: pages.slice(reportedPages),
+      navigationSteps: navigationSteps.slice(reportedSteps),
+    })
+    reportedPages = pages.length
+    reportedSteps = navigationSteps.length
+  }
 
   try {
-    // Start from the base URL
-    const startUrl = normalizeUrl(AMEX_BENEFITS_URL)
-    queue.push({ url: startUrl, depth: 0, parentUrl: null, linkText: null })
+    // robots.txt for every allowed host (seed URLs decide http vs https)
+    const origins = new Map<string, string>()
+    for (const seedUrl of scope.seedUrls) {
+      const seed = new URL(seedUrl)
+      if (!origins.has(seed.host)) origins.set(seed.host, seed.origin)
+    }
+    for (const host of scope.allowedHosts) {
+      if (!origins.has(host)) origins.set(host, `https://${host}`)
+    }
+
+    const robotsByHost = new Map<string, RobotsRules>()
+    const crawlDelays = new Map<string, number>()
+    for (const [host, origin] of origins) {
+      const robots = await loadRobotsRules(origin, baseFetcher)
+      robotsByHost.set(host, robots)
+      if (robots.crawlDelaySeconds !== null) crawlDelays.set(host, robots.crawlDelaySeconds)
+    }
+
+    const politeness = createPoliteness({
+      maxConcurrency: options.concurrency ?? SCRAPER_CONCURRENCY,
+      requestsPerMinute: SCRAPER_HOST_REQUESTS_PER_MINUTE,
+      burst: SCRAPER_HOST_BURST,
+      crawlDelays,
+    })
+    fetcher = withPoliteness(baseFetcher, politeness)
+
+    if (resume) {
+      console.log(`Resuming crawl: ${pages.length} pages done, ${queue.length} URL(s) in the frontier`)
+    } else {
+      // Start from the seed URLs (include rules do not apply to them)
+      for (const seedUrl of scope.seedUrls) {
+        const startUrl = normalize(seedUrl)
+        if (queue.some(q => q.url === startUrl)) continue
+
+        const startItem: QueueItem = { url: startUrl, depth: 0, parentUrl: null, linkText: null, sitemapLastmod: null }
+        const robots = robotsByHost.get(new URL(startUrl).host)
+        const startSkipReason = robots && isAllowedByRobots(startUrl, robots) ? null : 'disallowed_by_robots'
+        if (startSkipReason) {
+          recordSkip(startItem, startSkipReason)
+        } else {
+          queue.push(startItem)
+        }
+      }
+
+      // Add sitemap URLs as extra seeds
+      const sitemapEntries: SitemapEntry[] = []
+      for (const [host, origin] of origins) {
+        sitemapEntries.push(...await loadSitemapEntries(origin, robotsByHost.get(host)!, baseFetcher))
+      }
+      sitemapEntries.sort((a, b) => (b.lastmod?.getTime() ?? 0) - (a.lastmod?.getTime() ?? 0))
+      for (const entry of sitemapEntries) {
+        const seed: QueueItem = { url: entry.url, depth: 0, parentUrl: null, linkText: null, sitemapLastmod: entry.lastmod }
+        const normalizedSeedUrl = normalize(entry.url)
+        if (queue.some(q => normalize(q.url) === normalizedSeedUrl)) continue
+
+        const reason = getSkipReason(entry.url, scope, robotsByHost)
+        if (reason) {
+          recordSkip(seed, reason)
+        } else {
+          queue.push(seed)
+        }
+      }
+      console.log(`Seeded queue with ${queue.length} URL(s), ${politeness.getConcurrency()} worker(s)`)
+    }
+    await reportProgress()
+
+    let stopped = false
+    while (true) {
+      if (options.shouldStop && await options.shouldStop()) {
+        stopped = true
+        break
+      }
 
-    while (queue.length > 0 && pages.length < MAX_PAGES_TO_CRAWL) {
-      const current = queue.shift()!
-      const normalizedUrl = normalizeUrl(current.url)
+      // Start workers while there is capacity; in-flight visits count against the page budget
+      while (
+        queue.length > 0 &&
+        inFlight.length < politeness.getConcurrency() &&
+        pages.length + inFlight.length < maxPages
+      ) {
+        const current = queue.shift()!
+        const normalizedUrl = normalize(current.url)
+
+        // Skip if already visited
+        if (visited.has(normalizedUrl)) {
+          continue
+        }
+
+        visited.add(normalizedUrl)
+
+        console.log(`\n[${pages.length + inFlight.length + 1}/${maxPages}] Visiting: ${current.url} (depth: ${current.depth})`)
+
+        inFlight.push({
+          item: current,
+          visit: visitPage(current, fetcher, scope, robotsByHost, extractor, knownPages.get(normalizedUrl)),
+        })
+      }
 
-      // Skip if already visited
-      if (visited.has(normalizedUrl)) {
-        continue
+      if (inFlight.length === 0) {
+        break
       }
 
-      visited.add(normalizedUrl)
+      // Apply the oldest visit first to keep BFS order
+      const { item: current, visit: pendingVisit } = inFlight.shift()!
+      const visit = await pendingVisit
 
-      console.log(`\n[${pages.length + 1}/${MAX_PAGES_TO_CRAWL}] Visiting: ${current.url} (depth: ${current.depth})`)
+      // A URL that resolves to a page already scraped is only recorded as its alias
+      const canonicalUrl = visit.scrapedPage ? normalize(visit.scrapedPage.url) : null
+      const aliasOf = canonicalUrl ? pages.find(page => normalize(page.url) === canonicalUrl) : undefined
 
       // Record navigation step
-      const navStep: NavigationStep = {
+      navigationSteps.push({
         url: current.url,
         depth: current.depth,
         parentUrl: current.parentUrl,
         linkText: current.linkText,
-        visitedAt: new Date(),
-        scraped: false,
-      }
-
-      // Try to scrape the page
-      const scrapedPage = await scrapePage(current.url)
-
-      if (scrapedPage) {
-        pages.push(scrapedPage)
-        navStep.scraped = true
-        console.log(`  ✓ Successfully scraped (${pages.length}/${MAX_PAGES_TO_CRAWL})`)
+        visitedAt: visit.visitedAt,
+        scraped: visit.scrapedPage !== null,
+        skipReason: null,
+        sitemapLastmod: current.sitemapLastmod,
+        extractor: visit.extraction?.extractor ?? null,
+        extractionComparison: visit.extraction?.comparison ?? null,
+        httpStatus: visit.httpStatus,
+        retryCount: visit.retryCount,
+        failureReason: visit.failure?.failureReason ?? null,
+        failureMessage: visit.failure?.failureMessage ?? null,
+        screenshotPath: visit.failure?.screenshotPath ?? null,
+        htmlPath: visit.failure?.htmlPath ?? null,
+        contentHash: visit.scrapedPage?.contentHash ?? null,
+        interactionCount: visit.interactionCount,
+        canonicalUrl: aliasOf?.url ?? visit.scrapedPage?.url ?? null,
+      })
+
+      if (visit.scrapedPage && aliasOf) {
+        console.log(`  ✓ ${current.url} is an alias of ${aliasOf.url}`)
+      } else if (visit.scrapedPage) {
+        pages.push(visit.scrapedPage)
+        // Links to the canonical URL itself are not visited again
+        visited.add(canonicalUrl!)
+        console.log(`  ✓ Successfully scraped ${current.url} (${pages.length}/${maxPages}, ${visit.scrapedPage.changeStatus})`)
       } else {
-        console.log(`  ✗ Failed to scrape or insufficient content`)
+        console.log(`  ✗ Failed to scrape or insufficient content: ${current.url}`)
       }
 
-      navigationSteps.push(navStep)
-
-      // Discover new links if we haven't reached the page limit
-      if (pages.length < MAX_PAGES_TO_CRAWL) {
-        try {
-          const context = await getBrowserContext()
-          const page = await context.newPage()
-
-          // Set page timeout
-          page.setDefaultTimeout(SCRAPER_TIMEOUT)
-
-          await page.goto(current.url, {
-            waitUntil: 'domcontentloaded',
-            timeout: SCRAPER_TIMEOUT,
-          })
-
-          await page.waitForTimeout(1000)
-
-          // Handle dialogs before discovering links
-          try {
-            const dialogSelectors = [
-              'button:has-text("Agree")',
-              'button:has-text("I Agree")',
-              'button:has-text("Accept")',
-              'button:has-text("Continue")',
-              'button:has-text("OK")',
-            ]
-
-            for (const selector of dialogSelectors) {
-              const button = page.locator(selector).first()
-              if (await button.isVisible({ timeout: 1000 }).catch(() => false)) {
-                await button.click()
-                await page.waitForTimeout(500)
-                break
-              }
-            }
-          } catch {
-            // Ignore dialog errors
-          }
+      // Queue new links if we haven't reached the page limit
+      if (pages.length < maxPages) {
+        for (const link of visit.skipped) {
+          recordSkip({
+            url: link.url,
+            depth: current.depth + 1,
+            parentUrl: current.url,
+            linkText: link.text.substring(0, 200),
+            sitemapLastmod: null,
+          }, link.reason)
+        }
 
-          const discoveredLinks = await discoverLinks(page, current.url, AMEX_BENEFITS_URL)
-          await page.close()
-
-          console.log(`  Found ${discoveredLinks.length} benefit-related links`)
-
-          // Add discovered links to queue
-          for (const link of discoveredLinks) {
-            const normalizedLinkUrl = normalizeUrl(link.url)
-            if (!visited.has(normalizedLinkUrl) && !queue.some(q => normalizeUrl(q.url) === normalizedLinkUrl)) {
-              queue.push({
-                url: link.url,
-                depth: current.depth + 1,
-                parentUrl: current.url,
-                linkText: link.text.substring(0, 200), // Limit text length
-              })
-            }
+        // Add discovered links to queue
+        for (const link of visit.links) {
+          const normalizedLinkUrl = normalize(link.url)
+          if (!visited.has(normalizedLinkUrl) && !queue.some(q => normalize(q.url) === normalizedLinkUrl)) {
+            queue.push({
+              url: link.url,
+              depth: current.depth + 1,
+              parentUrl: current.url,
+              linkText: link.text.substring(0, 200), // Limit text length
+              sitemapLastmod: null,
+            })
           }
-
-          console.log(`  Queue size: ${queue.length}, Visited: ${visited.size}`)
-        } catch (error) {
-          console.error('  Error discovering links:', error instanceof Error ? error.message : error)
         }
-      }
 
-      // Rate limiting between pages
-      if (queue.length > 0) {
-        const delay = getRandomDelay()
-        console.log(`  Waiting ${delay}ms before next page...`)
-        await new Promise(resolve => setTimeout(resolve, delay))
+        console.log(`  Found ${visit.links.length} benefit-related links (${visit.skipped.length} skipped). Queue size: ${queue.length}, Visited: ${visited.size}`)
       }
+
+      await reportProgress()
     }
 
-    console.log(`\n✓ Crawl completed: ${pages.length} pages scraped, ${navigationSteps.length} steps taken`)
+    if (stopped) {
+      // Their URLs are still in the reported frontier, so a resumed crawl visits them again
+      console.log(`\n✓ Crawl stopped: ${pages.length} pages scraped, waiting for ${inFlight.length} visit(s) in flight`)
+      await Promise.allSettled(inFlight.map(entry => entry.visit))
+    } else {
+      console.log(`\n✓ Crawl completed: ${pages.length} pages scraped, ${navigationSteps.length} steps taken (${skippedUrls.size} skipped)`)
+    }
 
     // Cleanup browser after crawl
-    await closeBrowser()
+    await fetcher.close()
 
     return {
       pages,
       navigationSteps,
+      stopped,
     }
   } catch (error) {
     console.error('Error in crawlBenefitsPages:', error)
-    await closeBrowser()
+    // Visits still running may fail the same way once the browser closes
+    for (const pending of inFlight) {
+      pending.visit.catch(() => {})
+    }
+    await fetcher.close()
     throw error
   }
 }
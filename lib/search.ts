@@ -1,6 +1,7 @@
 import prisma from './prisma'
+import { getLiveIndexVersionId, LIVE_PAGE_FILTER } from './index-versions'
+import { getEmbeddingCached } from './embedding-cache'
 import {
-  generateEmbedding,
   stringToEmbedding,
   validateEmbedding,
   cosineSimilarity,
@@ -13,16 +14,20 @@ export interface SearchResult {
   sourceUrl: string
   similarity: number
   pageTitle: string
+  pageNumber: number | null
 }
 
 /**
  * Search for similar chunks using vector similarity
  * Retrieves chunks and calculates similarity in-memory (for demo/testing)
  * Production should use pgvector with proper vector type storage
+ * Searches the live index version unless another (e.g. the one live when a past answer was given) is passed;
+ * uploaded documents are unversioned and always included as they are now.
  */
 export async function searchChunks(
   query: string,
-  topK: number = 5
+  topK: number = 5,
+  indexVersionId?: number
 ): Promise<SearchResult[]> {
   try {
     if (!query || query.trim().length === 0) {
@@ -32,16 +37,24 @@ export async function searchChunks(
 
     console.log(`Searching for: "${query}"`)
 
-    // Generate embedding for the query
-    const queryEmbedding = await generateEmbedding(query)
+    // Generate embedding for the query (repeated questions come from the embedding cache)
+    const queryEmbedding = await getEmbeddingCached(query)
 
     if (!validateEmbedding(queryEmbedding)) {
       throw new Error('Invalid query embedding generated')
     }
 
-    // Fetch all chunks with embeddings
+    if (indexVersionId !== undefined) {
+      const version = await prisma.indexVersion.findUnique({ where: { id: indexVersionId }, select: { id: true } })
+      if (!version) {
+        throw new Error(`Index version ${indexVersionId} not found`)
+      }
+    }
+    const versionId = indexVersionId ?? (await getLiveIndexVersionId())
+
+    // Fetch all chunks with embeddings from the index version (and uploads)
     const chunks = await prisma.chunk.findMany({
-      where: { embedding: { not: null } },
+      where: { embedding: { not: null }, OR: [{ indexVersionId: versionId }, { indexVersionId: null }] },
       include: { page: true },
     })
 
@@ -66,6 +79,7 @@ export async function searchChunks(
         sourceUrl: chunk.sourceUrl,
         similarity,
         pageTitle: chunk.page.title,
+        pageNumber: chunk.pageNumber,
       }
     })
 
@@ -93,6 +107,7 @@ export async function searchChunks(
           sourceUrl: chunk.sourceUrl,
           similarity: 0.5, // Fallback similarity score
           pageTitle: chunk.page.title,
+          pageNumber: chunk.pageNumber,
         }))
         .slice(0, topK)
     }
@@ -125,6 +140,13 @@ export function filterByThreshold(
   return results.filter(r => r.similarity >= threshold)
 }
 
+/**
+ * Human-readable source label, e.g. "SPD.pdf, page 14"
+ */
+export function formatSourceLabel(result: SearchResult): string {
+  return result.pageNumber ? `${result.pageTitle}, page ${result.pageNumber}` : result.pageTitle
+}
+
 /**
  * Format search results for LLM context
  */
@@ -136,7 +158,7 @@ export function formatSearchResultsAsContext(results: SearchResult[]): string {
   const context = results
     .map(
       (result, index) =>
-        `[${index + 1}] ${result.text}\n(Source: ${result.pageTitle} - ${result.sourceUrl}, Relevance: ${(result.similarity * 100).toFixed(1)}%)`
+        `[${index + 1}] ${result.text}\n(Source: ${formatSourceLabel(result)} - ${result.sourceUrl}, Relevance: ${(result.similarity * 100).toFixed(1)}%)`
     )
     .join('\n\n')
 
@@ -152,23 +174,18 @@ export async function getSearchStats(): Promise<{
   totalEmbeddings: number
   categories: Array<{ category: string; count: number }>
 }> {
-  const totalChunks = await prisma.chunk.count()
-  const totalPages = await prisma.page.count()
+  const totalChunks = await prisma.chunk.count({ where: { page: LIVE_PAGE_FILTER } })
+  const totalPages = await prisma.page.count({ where: LIVE_PAGE_FILTER })
   const chunksWithEmbeddings = await prisma.chunk.count({
-    where: { embedding: { not: null } },
+    where: { embedding: { not: null }, page: LIVE_PAGE_FILTER },
   })
 
-  const categoryCounts = await prisma.$queryRaw<
-    Array<{
-      category: string
-      count: bigint
-    }>
-  >`
-    SELECT category, COUNT(*) as count
-    FROM chunks
-    GROUP BY category
-    ORDER BY count DESC
-  `
+  const categoryCounts = await prisma.chunk.groupBy({
+    by: ['category'],
+    where: { page: LIVE_PAGE_FILTER },
+    _count: { _all: true },
+    orderBy: { _count: { category: 'desc' } },
+  })
 
   return {
     totalChunks,
@@ -176,7 +193,7 @@ export async function getSearchStats(): Promise<{
     totalEmbeddings: chunksWithEmbeddings,
     categories: categoryCounts.map(c => ({
       category: c.category,
-      count: Number(c.count),
+      count: c._count._all,
     })),
   }
 }
@@ -0,0 +1,107 @@
+import path from 'path'
+import * as cheerio from 'cheerio'
+import { extractContentFromDom, extractTables } from './dom-extractor'
+import { computeContentHash } from './change-detection'
+import type { ScrapedPage } from './scraper'
+
+export type UploadFormat = 'markdown' | 'html' | 'text'
+
+// Larger files are unlikely to be a hand-written FAQ
+export const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_BYTES || String(2 * 1024 * 1024), 10)
+
+const UPLOAD_EXTENSIONS: Record<string, UploadFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.txt': 'text',
+}
+
+export const UPLOAD_CONTENT_TYPES: Record<UploadFormat, string> = {
+  // Plain text so browsers display Markdown instead of downloading it
+  markdown: 'text/plain; charset=utf-8',
+  // Served with a sandbox CSP, so scripts in the file never run on the app origin
+  html: 'text/html; charset=utf-8',
+  text: 'text/plain; charset=utf-8',
+}
+
+/**
+ * Error raised when a file maps to the URL of an upload with another name, e.g. "Benefits FAQ.md" and "benefits-faq.txt"
+ */
+export class UploadNameConflictError extends Error {
+  constructor(fileName: string, existingFileName: string, url: string) {
+    super(`${fileName} would replace ${existingFileName} at ${url}; rename the file or delete ${existingFileName} first`)
+    this.name = 'UploadNameConflictError'
+  }
+}
+
+/**
+ * Format of an uploaded file, or null when its extension is not supported
+ */
+export function getUploadFormat(fileName: string): UploadFormat | null {
+  return UPLOAD_EXTENSIONS[path.extname(fileName).toLowerCase()] ?? null
+}
+
+/**
+ * URL-safe name of an uploaded file (re-uploading a file with the same name replaces it, another name is a conflict)
+ */
+export function getUploadSlug(fileName: string): string {
+  const slug = path
+    .basename(fileName, path.extname(fileName))
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return slug || 'document'
+}
+
+/**
+ * Stable internal URL serving an uploaded document, used as its page URL and in citations
+ */
+export function getUploadUrl(slug: string): string {
+  return `/api/documents/${slug}`
+}
+
+/**
+ * Turn an uploaded file into a page ready for chunking
+ */
+export function parseUploadedDocument(fileName: string, body: string, format: UploadFormat): ScrapedPage {
+  const fallbackTitle = path.basename(fileName, path.extname(fileName))
+  const base = {
+    url: getUploadUrl(getUploadSlug(fileName)),
+    contentHash: computeContentHash(body),
+    etag: null,
+    lastModified: null,
+    changeStatus: 'new' as const,
+  }
+
+  if (format === 'html') {
+    const extracted = extractContentFromDom(body)
+    const $ = cheerio.load(body)
+    return {
+      ...base,
+      title: extracted.title === 'Benefits Page' ? fallbackTitle : extracted.title,
+      content: extracted.content,
+      headings: $('h1, h2, h3, h4, h5, h6')
+        .map((_, el) => $(el).text().trim())
+        .get()
+        .filter(Boolean),
+      tables: extractTables(body),
+    }
+  }
+
+  const content = body.replace(/\r\n/g, '\n').trim()
+  const headings =
+    format === 'markdown'
+      ? content
+          .split('\n')
+          .filter(line => /^#{1,6}\s/.test(line))
+          .map(line => line.replace(/^#+\s*/, '').trim())
+      : []
+
+  return {
+    ...base,
+    title: headings[0] || fallbackTitle,
+    content,
+    headings,
+  }
+}
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "navigation_steps" ADD COLUMN     "skipReason" TEXT,
+ADD COLUMN     "sitemapLastmod" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "chunks" ADD COLUMN     "pageNumber" INTEGER;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "pages" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "etag" TEXT,
+ADD COLUMN     "lastModified" TEXT;
+
+-- AlterTable
+ALTER TABLE "crawl_sessions" ADD COLUMN     "pagesNew" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pagesChanged" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pagesUnchanged" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "pagesRemoved" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "navigation_steps" ADD COLUMN     "extractor" TEXT,
+ADD COLUMN     "extractionComparison" JSONB;
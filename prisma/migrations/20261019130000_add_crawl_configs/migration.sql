@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "crawl_sessions" ADD COLUMN     "crawlConfigId" INTEGER,
+ADD COLUMN     "configSnapshot" JSONB;
+
+-- CreateTable
+CREATE TABLE "crawl_configs" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "seedUrls" TEXT[],
+    "allowedHosts" TEXT[],
+    "includePatterns" TEXT[],
+    "excludePatterns" TEXT[],
+    "maxDepth" INTEGER,
+    "maxPages" INTEGER NOT NULL DEFAULT 20,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "crawl_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "crawl_configs_isActive_idx" ON "crawl_configs"("isActive");
+
+-- AddForeignKey
+ALTER TABLE "crawl_sessions" ADD CONSTRAINT "crawl_sessions_crawlConfigId_fkey" FOREIGN KEY ("crawlConfigId") REFERENCES "crawl_configs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "crawl_sessions" ADD COLUMN     "crawlState" JSONB,
+ADD COLUMN     "checkpointAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "staged_pages" (
+    "id" SERIAL NOT NULL,
+    "crawlSessionId" INTEGER NOT NULL,
+    "url" VARCHAR(2048) NOT NULL,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "staged_pages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "staged_pages_crawlSessionId_idx" ON "staged_pages"("crawlSessionId");
+
+-- AddForeignKey
+ALTER TABLE "staged_pages" ADD CONSTRAINT "staged_pages_crawlSessionId_fkey" FOREIGN KEY ("crawlSessionId") REFERENCES "crawl_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "navigation_steps" ADD COLUMN     "failureMessage" TEXT,
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "htmlPath" TEXT,
+ADD COLUMN     "httpStatus" INTEGER,
+ADD COLUMN     "retryCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "screenshotPath" TEXT;
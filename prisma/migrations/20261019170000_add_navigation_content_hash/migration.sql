@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "navigation_steps" ADD COLUMN     "contentHash" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "crawl_configs" ADD COLUMN     "interactionRules" JSONB;
+
+-- AlterTable
+ALTER TABLE "navigation_steps" ADD COLUMN     "interactionCount" INTEGER;
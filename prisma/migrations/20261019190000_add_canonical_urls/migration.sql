@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "crawl_configs" ADD COLUMN     "queryAllowlist" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "navigation_steps" ADD COLUMN     "canonicalUrl" VARCHAR(2048);
+
+-- AlterTable
+ALTER TABLE "pages" ADD COLUMN     "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "pages" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'crawl';
+
+-- CreateTable
+CREATE TABLE "uploaded_documents" (
+    "id" SERIAL NOT NULL,
+    "pageId" INTEGER NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "uploaded_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pages_source_idx" ON "pages"("source");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uploaded_documents_pageId_key" ON "uploaded_documents"("pageId");
+
+-- AddForeignKey
+ALTER TABLE "uploaded_documents" ADD CONSTRAINT "uploaded_documents_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "pages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "jobs" (
+    "id" SERIAL NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "stage" TEXT,
+    "percent" INTEGER NOT NULL DEFAULT 0,
+    "counts" JSONB,
+    "params" JSONB,
+    "result" JSONB,
+    "error" TEXT,
+    "crawlSessionId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "jobs_status_idx" ON "jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "jobs_createdAt_idx" ON "jobs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_crawlSessionId_fkey" FOREIGN KEY ("crawlSessionId") REFERENCES "crawl_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
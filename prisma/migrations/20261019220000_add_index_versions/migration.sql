@@ -0,0 +1,35 @@
+-- DropIndex
+DROP INDEX "pages_url_key";
+
+-- AlterTable
+ALTER TABLE "pages" ADD COLUMN     "indexVersionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "index_versions" (
+    "id" SERIAL NOT NULL,
+    "status" TEXT NOT NULL,
+    "crawlSessionId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "activatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "index_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing crawled pages become the first live version
+INSERT INTO "index_versions" ("status", "activatedAt")
+SELECT 'live', CURRENT_TIMESTAMP WHERE EXISTS (SELECT 1 FROM "pages" WHERE "source" = 'crawl');
+
+UPDATE "pages" SET "indexVersionId" = (SELECT "id" FROM "index_versions" WHERE "status" = 'live')
+WHERE "source" = 'crawl';
+
+-- CreateIndex
+CREATE INDEX "index_versions_status_idx" ON "index_versions"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pages_indexVersionId_url_key" ON "pages"("indexVersionId", "url");
+
+-- AddForeignKey
+ALTER TABLE "pages" ADD CONSTRAINT "pages_indexVersionId_fkey" FOREIGN KEY ("indexVersionId") REFERENCES "index_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "index_versions" ADD CONSTRAINT "index_versions_crawlSessionId_fkey" FOREIGN KEY ("crawlSessionId") REFERENCES "crawl_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
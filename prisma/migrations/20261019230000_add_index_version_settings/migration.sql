@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "index_versions" ADD COLUMN     "chunkSettings" JSONB,
+ADD COLUMN     "embeddingDimensions" INTEGER,
+ADD COLUMN     "embeddingModel" TEXT;
+
+-- AlterTable
+ALTER TABLE "chunks" ADD COLUMN     "indexVersionId" INTEGER;
+
+-- Chunks take the version of their page
+UPDATE "chunks" SET "indexVersionId" = "pages"."indexVersionId"
+FROM "pages" WHERE "chunks"."pageId" = "pages"."id";
+
+-- CreateIndex
+CREATE INDEX "chunks_indexVersionId_idx" ON "chunks"("indexVersionId");
+
+-- AddForeignKey
+ALTER TABLE "chunks" ADD CONSTRAINT "chunks_indexVersionId_fkey" FOREIGN KEY ("indexVersionId") REFERENCES "index_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
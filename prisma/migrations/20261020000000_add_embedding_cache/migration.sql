@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "embedding_cache" (
+    "id" SERIAL NOT NULL,
+    "textHash" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "dimensions" INTEGER NOT NULL,
+    "embedding" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "embedding_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "embedding_cache_textHash_model_dimensions_key" ON "embedding_cache"("textHash", "model", "dimensions");
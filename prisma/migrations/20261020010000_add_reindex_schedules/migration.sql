@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "reindex_schedules" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "cron" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lastRunStatus" TEXT,
+    "lastJobId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reindex_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reindex_schedules_enabled_nextRunAt_idx" ON "reindex_schedules"("enabled", "nextRunAt");
@@ -0,0 +1,103 @@
+import 'dotenv/config'
+import prisma from '../lib/prisma'
+import { writeChunkedPages } from '../lib/page-store'
+import { createIndexVersion, discardIndexVersion } from '../lib/index-versions'
+import { EMBEDDING_DIMENSIONS } from '../lib/embeddings'
+import type { ChunkedContent } from '../lib/chunking'
+import type { ScrapedPage } from '../lib/scraper'
+
+/**
+ * Time the store phase of a reindex for growing numbers of chunks
+ *
+ *   yarn benchmark:store                 # 200, 1000, 5000, 20000 chunks
+ *   yarn benchmark:store 500 50000       # custom sizes
+ *
+ * Writes synthetic pages (CHUNKS_PER_PAGE chunks each, random embeddings) into a building index version against
+ * DATABASE_URL, then discards the version, so search never sees them. Use a development database.
+ * INDEX_STORE_BATCH_CHUNKS, INDEX_STORE_BATCH_PAGES and INDEX_STORE_CONCURRENCY apply as in a real reindex.
+ */
+
+const DEFAULT_SIZES = [200, 1000, 5000, 20000]
+const CHUNKS_PER_PAGE = 10
+
+// A handful of vectors shared by all chunks keeps memory flat; their values do not affect write time
+const SAMPLE_EMBEDDINGS = Array.from({ length: 8 }, () =>
+  Array.from({ length: EMBEDDING_DIMENSIONS }, () => Math.random() * 2 - 1)
+)
+
+const CHUNK_TEXT = 'Colleagues enrolled in the PPO plan pay a $500 individual deductible before coinsurance applies. '
+  .repeat(16)
+  .trim()
+
+function buildPages(chunkCount: number, run: number): { pages: ScrapedPage[]; chunkedPages: ChunkedContent[] } {
+  const pageCount = Math.ceil(chunkCount / CHUNKS_PER_PAGE)
+  const pages: ScrapedPage[] = []
+  const chunkedPages: ChunkedContent[] = []
+
+  for (let i = 0; i < pageCount; i++) {
+    const url = `https://benchmark.invalid/run-${run}/page-${i}`
+    const chunks = Math.min(CHUNKS_PER_PAGE, chunkCount - i * CHUNKS_PER_PAGE)
+    pages.push({
+      url,
+      title: `Benchmark page ${i}`,
+      content: CHUNK_TEXT,
+      headings: [],
+      etag: null,
+      lastModified: null,
+      changeStatus: 'new',
+    })
+    chunkedPages.push({
+      pageUrl: url,
+      pageTitle: `Benchmark page ${i}`,
+      chunks: Array.from({ length: chunks }, () => ({
+        text: CHUNK_TEXT,
+        category: 'benchmark',
+        sourceUrl: url,
+        pageNumber: null,
+      })),
+    })
+  }
+  return { pages, chunkedPages }
+}
+
+async function benchmark(chunkCount: number, run: number): Promise<{ pages: number; seconds: number }> {
+  const { pages, chunkedPages } = buildPages(chunkCount, run)
+  const embeddings = Array.from({ length: chunkCount }, (_, index) => SAMPLE_EMBEDDINGS[index % SAMPLE_EMBEDDINGS.length])
+
+  const indexVersionId = await createIndexVersion(null)
+  try {
+    const startTime = Date.now()
+    await writeChunkedPages(indexVersionId, pages, chunkedPages, embeddings, 'crawl')
+    return { pages: pages.length, seconds: (Date.now() - startTime) / 1000 }
+  } finally {
+    await discardIndexVersion(indexVersionId)
+  }
+}
+
+async function main() {
+  const sizes = process.argv.slice(2).map(arg => parseInt(arg, 10)).filter(size => size > 0)
+  const rows: Array<{ chunks: number; pages: number; seconds: number }> = []
+
+  for (const [run, chunkCount] of (sizes.length > 0 ? sizes : DEFAULT_SIZES).entries()) {
+    const { pages, seconds } = await benchmark(chunkCount, run)
+    rows.push({ chunks: chunkCount, pages, seconds })
+  }
+
+  console.log('\n  chunks    pages   seconds   chunks/s')
+  for (const row of rows) {
+    console.log(
+      `${String(row.chunks).padStart(8)} ${String(row.pages).padStart(8)} ${row.seconds.toFixed(2).padStart(9)} ${Math.round(
+        row.chunks / row.seconds
+      )
+        .toString()
+        .padStart(10)}`
+    )
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('✗ Benchmark failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
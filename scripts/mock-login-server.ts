@@ -0,0 +1,139 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { randomBytes } from 'crypto'
+
+/**
+ * Local SSO stand-in for testing authenticated crawls
+ *
+ *   yarn mock:login
+ *   SCRAPER_LOGIN_URL=http://localhost:4010/login SCRAPER_LOGIN_USERNAME=demo SCRAPER_LOGIN_PASSWORD=demo \
+ *   AMEX_BENEFITS_URL=http://localhost:4010/benefits yarn dev
+ *
+ * Benefits pages redirect to /login without a valid session cookie.
+ * POST /expire drops every session, to check that a running crawl stops as auth_expired.
+ */
+
+const PORT = parseInt(process.env.MOCK_LOGIN_PORT || '4010', 10)
+const USERNAME = process.env.MOCK_LOGIN_USERNAME || 'demo'
+const PASSWORD = process.env.MOCK_LOGIN_PASSWORD || 'demo'
+const SESSION_COOKIE = 'mock_session'
+
+const sessions = new Set<string>()
+
+const PAGES: Record<string, { title: string; body: string }> = {
+  '/benefits': {
+    title: 'Colleague Benefits',
+    body: `
+      <p>Everything you need to know about your benefits as a colleague, from health coverage to retirement savings.
+      Review each program below to understand eligibility, enrollment windows and how to get support.</p>
+      <ul>
+        <li><a href="/benefits/medical">Medical plans</a></li>
+        <li><a href="/benefits/retirement">Retirement savings</a></li>
+      </ul>`,
+  },
+  '/benefits/medical': {
+    title: 'Medical Plans',
+    body: `
+      <p>Colleagues can choose between two medical plans during open enrollment. Both plans cover preventive care
+      at no cost when you use in-network providers, and both include prescription drug coverage.</p>
+      <table>
+        <caption>Annual deductible</caption>
+        <thead><tr><th>Plan</th><th>Individual</th><th>Family</th></tr></thead>
+        <tbody>
+          <tr><td>PPO</td><td>$1,500</td><td>$3,000</td></tr>
+          <tr><td>HDHP</td><td>$3,000</td><td>$6,000</td></tr>
+        </tbody>
+      </table>`,
+  },
+  '/benefits/retirement': {
+    title: 'Retirement Savings',
+    body: `
+      <p>The company matches 100% of the first 5% of eligible pay you contribute to the retirement savings plan.
+      Contributions vest immediately, and you can change your contribution rate at any time during the year.</p>`,
+  },
+}
+
+function getSessionId(request: IncomingMessage): string | null {
+  const cookies = request.headers.cookie?.split(';').map(cookie => cookie.trim().split('=')) ?? []
+  const match = cookies.find(([name]) => name === SESSION_COOKIE)
+  return match && sessions.has(match[1]) ? match[1] : null
+}
+
+function sendHtml(response: ServerResponse, status: number, title: string, body: string) {
+  response.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' })
+  response.end(`<!DOCTYPE html><html><head><title>${title}</title></head><body><h1>${title}</h1>${body}</body></html>`)
+}
+
+function redirect(response: ServerResponse, location: string, headers: Record<string, string> = {}) {
+  response.writeHead(302, { Location: location, ...headers })
+  response.end()
+}
+
+async function readForm(request: IncomingMessage): Promise<URLSearchParams> {
+  let raw = ''
+  for await (const chunk of request) {
+    raw += chunk
+  }
+  return new URLSearchParams(raw)
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`)
+  console.log(`${request.method} ${url.pathname}`)
+
+  if (url.pathname === '/robots.txt') {
+    response.writeHead(200, { 'Content-Type': 'text/plain' })
+    response.end('User-agent: *\nAllow: /\n')
+    return
+  }
+
+  if (url.pathname === '/login' && request.method === 'GET') {
+    const returnTo = url.searchParams.get('returnTo') || '/benefits'
+    sendHtml(response, 200, 'Sign in', `
+      <form method="post" action="/login?returnTo=${encodeURIComponent(returnTo)}">
+        <input name="username" />
+        <input type="password" name="password" />
+        <button type="submit">Sign in</button>
+      </form>`)
+    return
+  }
+
+  if (url.pathname === '/login' && request.method === 'POST') {
+    const form = await readForm(request)
+    if (form.get('username') !== USERNAME || form.get('password') !== PASSWORD) {
+      sendHtml(response, 401, 'Sign in', '<p>Invalid username or password</p>')
+      return
+    }
+
+    const sessionId = randomBytes(16).toString('hex')
+    sessions.add(sessionId)
+    redirect(response, url.searchParams.get('returnTo') || '/benefits', {
+      'Set-Cookie': `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly; SameSite=Lax`,
+    })
+    return
+  }
+
+  if (url.pathname === '/expire' && request.method === 'POST') {
+    console.log(`✓ Expired ${sessions.size} session(s)`)
+    sessions.clear()
+    response.writeHead(204)
+    response.end()
+    return
+  }
+
+  const page = PAGES[url.pathname]
+  if (!page) {
+    sendHtml(response, 404, 'Not found', '<p>No such page</p>')
+    return
+  }
+
+  if (!getSessionId(request)) {
+    redirect(response, `/login?returnTo=${encodeURIComponent(url.pathname)}`)
+    return
+  }
+
+  sendHtml(response, 200, page.title, page.body)
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock login server on http://localhost:${PORT} (user "${USERNAME}")`)
+})